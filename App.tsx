@@ -1,7 +1,49 @@
 
-import React, { useState, useRef } from 'react';
-import { AppState, VideoAnalysis } from './types';
-import { analyzeVideo, generateThumbnail } from './services/gemini';
+import React, { useState, useRef, useEffect, useReducer, useSyncExternalStore } from 'react';
+import { Chapter, ChannelProfile, EditableSection, GeneratedThumbnail, Highlight, PlatformId, Project, ThumbnailAspectRatio, VideoAnalysis, VideoSource } from './types';
+import { analyzeVideo, getProvider, localizeAnalysis, regenerateSection } from './services/ai';
+import { UploadError } from './services/upload';
+import { createProjectId, findProjectByHash, saveProject } from './services/library';
+import { buildProject, checkRunBudget, createThumbnail, createThumbnailVariants, MAX_UPLOAD_SIZE, prepareVideoSource, ThumbnailReference } from './services/pipeline';
+import { errorTitle, isAbortError, toAnalysisError } from './services/errors';
+import { appReducer, INITIAL_PHASE, isRunning } from './services/appMachine';
+import { validateAnalysis } from './services/validation';
+import { AnalysisQueue, createJobRunner, DEFAULT_CONCURRENCY } from './services/queue';
+import { getPlatform, loadEnabledPlatforms, saveEnabledPlatforms, sortPlatforms, titleLimitsFor } from './services/platforms';
+import { loadActiveProfileId, loadChannelProfiles, saveActiveProfileId, styleThumbnailPrompt } from './services/profiles';
+import { budgetMessage, trackUsage, usageLedger } from './services/usage';
+import { hashFile } from './utils/hash';
+import { useHistory } from './hooks/useHistory';
+import ProjectLibrary from './components/ProjectLibrary';
+import JobDashboard from './components/JobDashboard';
+import TrendResearch from './components/TrendResearch';
+import ThumbnailEditor from './components/ThumbnailEditor';
+import ThumbnailGallery, { MAX_AB_PICKS } from './components/ThumbnailGallery';
+import EditableText from './components/EditableText';
+import RegenerateControl from './components/RegenerateControl';
+import EditHistory from './components/EditHistory';
+import LocaleSwitcher from './components/LocaleSwitcher';
+import PlatformCard from './components/PlatformCard';
+import ProjectExportMenu from './components/ProjectExportMenu';
+import PlatformPicker from './components/PlatformPicker';
+import LimitStatus from './components/LimitStatus';
+import AnalysisProgress from './components/AnalysisProgress';
+import ChapterPanel from './components/ChapterPanel';
+import HighlightClips from './components/HighlightClips';
+import FramePicker from './components/FramePicker';
+import ChannelProfiles from './components/ChannelProfiles';
+import ProfileStatus from './components/ProfileStatus';
+import UsageDashboard from './components/UsageDashboard';
+import ProjectUsage from './components/ProjectUsage';
+import TitleScoreBreakdown from './components/TitleScoreBreakdown';
+import TitleTester from './components/TitleTester';
+import { buildCaptionFile, CaptionFormat, formatClock, normalizeSegments } from './utils/captions';
+import { downloadFile, toFileSlug } from './utils/download';
+import { buildCopySheet } from './utils/copySheet';
+import { insertChaptersWithin } from './utils/chapters';
+import { CandidateFrame, cropFrameToAspect } from './utils/frames';
+import { highlightCoverPrompt } from './utils/highlights';
+import { scoreTitle } from './utils/titleScore';
 import { 
   CloudArrowUpIcon, 
   SparklesIcon, 
@@ -13,77 +55,420 @@ import {
   DevicePhoneMobileIcon,
   RectangleGroupIcon,
   GlobeAltIcon,
-  ClipboardIcon
+  ClipboardIcon,
+  ArrowDownTrayIcon,
+  FolderOpenIcon,
+  QueueListIcon,
+  PencilSquareIcon,
+  Square2StackIcon,
+  StopIcon,
+  BanknotesIcon,
+  ChevronDownIcon
 } from '@heroicons/react/24/outline';
 
+const sectionLabel = (section: EditableSection) =>
+  section === 'titles' ? 'titles' : `${getPlatform(section).label} ${getPlatform(section).fieldLabel.toLowerCase()}`;
+
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>(AppState.IDLE);
-  const [error, setError] = useState<string | null>(null);
-  const [analysis, setAnalysis] = useState<VideoAnalysis | null>(null);
+  const [phase, dispatch] = useReducer(appReducer, INITIAL_PHASE);
+  const [fileNotice, setFileNotice] = useState<string | null>(null);
+  const history = useHistory<VideoAnalysis>();
+  const analysis = history.present;
+  const [regenerating, setRegenerating] = useState<EditableSection | null>(null);
+  const [regenerateError, setRegenerateError] = useState<{ section: EditableSection; message: string } | null>(null);
+  const [activeLocale, setActiveLocale] = useState<string | null>(null);
+  const [localizing, setLocalizing] = useState<string | null>(null);
+  const [localizeError, setLocalizeError] = useState<string | null>(null);
+  const [enabledPlatforms, setEnabledPlatforms] = useState<PlatformId[]>(loadEnabledPlatforms);
+  const [profiles, setProfiles] = useState<ChannelProfile[]>(loadChannelProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(loadActiveProfileId);
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
-  const [thumbAspectRatio, setThumbAspectRatio] = useState<"16:9" | "9:16">("9:16"); // Defaulting to 9:16 as requested
+  const [activeThumbId, setActiveThumbId] = useState<string | null>(null);
+  const [thumbAspectRatio, setThumbAspectRatio] = useState<ThumbnailAspectRatio>("9:16"); // Defaulting to 9:16 as requested
+  const [thumbPrompt, setThumbPrompt] = useState('');
+  const [variantCount, setVariantCount] = useState(3);
   const [isRegeneratingThumb, setIsRegeneratingThumb] = useState(false);
-  const [progress, setProgress] = useState<string>('');
+  const [isEditingThumb, setIsEditingThumb] = useState(false);
+  const [fileName, setFileName] = useState<string>('');
+  const [project, setProject] = useState<Project | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [openScores, setOpenScores] = useState<number[]>([]); // title ranks whose score breakdown is expanded
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const [referenceFrame, setReferenceFrame] = useState<CandidateFrame | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingFileRef = useRef<File | null>(null);
+  const pendingHashRef = useRef<string>('');
+  const projectRef = useRef<Project | null>(null);
+  const runRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const thumbRatioRef = useRef(thumbAspectRatio);
+  thumbRatioRef.current = thumbAspectRatio;
+  // The copy currently on screen: a stored localization, or the (editable) source result.
+  const view = (activeLocale && project?.localizations?.[activeLocale]) || analysis;
+  const queueRef = useRef<AnalysisQueue | null>(null);
+  if (!queueRef.current) queueRef.current = new AnalysisQueue(createJobRunner(() => thumbRatioRef.current));
+  const queue = queueRef.current;
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getJobs);
+  const usageRecords = useSyncExternalStore(usageLedger.subscribe, usageLedger.getRecords);
+  const projectUsage = project ? usageRecords.filter(r => r.projectId === project.id) : [];
+
+  // Stops whatever the current run has in flight (upload, model request or backoff wait).
+  const abortRun = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
+
+  const cancelRun = () => {
+    abortRun();
+    dispatch({ type: 'CANCEL' });
+  };
+
+  // Leaving a run for another screen cancels it rather than letting it finish out of sight.
+  const showLibrary = () => {
+    abortRun();
+    dispatch({ type: 'SHOW_LIBRARY' });
+  };
+
+  const showQueue = () => {
+    abortRun();
+    dispatch({ type: 'SHOW_QUEUE' });
+  };
+
+  const showUsage = () => {
+    abortRun();
+    dispatch({ type: 'SHOW_USAGE' });
+  };
+
+  // Follow-up calls on the open project (regenerate, localize, thumbnails) are billed to it.
+  const projectUsageOptions = () => ({
+    onUsage: trackUsage({ projectId: projectRef.current?.id, label: projectRef.current?.name })
+  });
+
+  // Library writes are best-effort: a full or blocked IndexedDB must not break the current run.
+  // projectRef always holds the newest version so overlapping async updates do not clobber each other.
+  const persistProject = async (next: Project) => {
+    projectRef.current = next;
+    setProject(next);
+    try {
+      const saved = await saveProject(next);
+      if (projectRef.current === next) {
+        projectRef.current = saved;
+        setProject(saved);
+      }
+    } catch (err) {
+      console.error("Failed to save project", err);
+    }
+  };
+
+  const updateThumbnails = (update: (thumbs: GeneratedThumbnail[]) => GeneratedThumbnail[]) => {
+    const current = projectRef.current;
+    if (current) return persistProject({ ...current, thumbnails: update(current.thumbnails) });
+  };
+
+  // Frames belong to one video; a new upload or attachment drops the old reference.
+  useEffect(() => setReferenceFrame(null), [previewFile]);
+
+  // Edits, regenerations, undo and redo all land here; keep the saved project on the visible version.
+  useEffect(() => {
+    const current = projectRef.current;
+    if (analysis && current && current.analysis !== analysis) persistProject({ ...current, analysis });
+  }, [analysis]);
+
+  const saveLocalization = (variant: VideoAnalysis) => {
+    const current = projectRef.current;
+    if (current && variant.locale) {
+      return persistProject({ ...current, localizations: { ...current.localizations, [variant.locale]: variant } });
+    }
+  };
+
+  // Source-language changes go through the undo history; localized variants are saved directly.
+  const commitCopy = (next: VideoAnalysis, label: string) => {
+    if (next.locale) saveLocalization(next);
+    else history.push(next, label);
+  };
+
+  const editTitle = (rank: number, text: string) => {
+    if (!view) return;
+    commitCopy({ ...view, titles: view.titles.map(t => t.rank === rank ? { ...t, text } : t) }, `Edited title #${rank}`);
+  };
+
+  const editDescription = (platform: PlatformId, text: string, action = 'Edited') => {
+    if (!view) return;
+    commitCopy({ ...view, descriptions: { ...view.descriptions, [platform]: text } }, `${action} ${sectionLabel(platform)}`);
+  };
+
+  const editChapters = (chapters: Chapter[], label: string) => {
+    if (view) commitCopy({ ...view, chapters }, label);
+  };
+
+  const editHighlights = (highlights: Highlight[], label: string) => {
+    if (view) commitCopy({ ...view, highlights }, label);
+  };
+
+  const createHighlightCover = (highlight: Highlight, reference: ThumbnailReference, signal: AbortSignal) => {
+    if (!analysis) return Promise.reject(new Error("No analysis is open."));
+    const prompt = highlightCoverPrompt(highlight, analysis.thumbnailConcept.prompt);
+    return createThumbnail(styleThumbnailPrompt(prompt, projectProfile), '9:16', 0, reference, { ...projectUsageOptions(), signal });
+  };
+
+  // Once a clip is exported, its cover lands in the gallery like any other generated thumbnail.
+  const keepHighlightCover = (thumb: GeneratedThumbnail) => updateThumbnails(current => [...current, thumb]);
+
+  const insertChapterList = () => {
+    if (view?.chapters?.length) editDescription('youtube', insertChaptersWithin(view.descriptions.youtube || '', view.chapters, getPlatform('youtube').limits), 'Inserted chapters into');
+  };
+
+  // New analyses are written for the active profile; an open project keeps the profile it was written for.
+  const changeActiveProfile = (id: string | null) => {
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+  };
+
+  const changeProjectProfile = (id: string | null) => {
+    const current = projectRef.current;
+    if (current) persistProject({ ...current, profileId: id || undefined });
+  };
+
+  // The selection also applies to future analyses. Copy for platforms switched off is kept, just hidden.
+  const changePlatforms = (next: PlatformId[]) => {
+    const sorted = sortPlatforms(next);
+    setEnabledPlatforms(sorted);
+    saveEnabledPlatforms(sorted);
+  };
+
+  // Reruns one section from the existing transcript; the video is not sent again.
+  const regenerate = async (section: EditableSection, guidance: string) => {
+    if (!view || regenerating) return;
+    setRegenerating(section);
+    setRegenerateError(null);
+    try {
+      const next = await regenerateSection(view, section, guidance, projectProfile, projectUsageOptions());
+      const note = guidance.trim() ? `: "${guidance.trim()}"` : '';
+      commitCopy(next, `Regenerated ${sectionLabel(section)}${note}`);
+    } catch (err) {
+      console.error("Regeneration failed", err);
+      setRegenerateError({ section, message: toAnalysisError(err).message });
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  // Localizations are always built from the current source-language version, including edits.
+  const localize = async (locale: string) => {
+    if (!analysis || localizing) return;
+    setLocalizing(locale);
+    setLocalizeError(null);
+    try {
+      const variant = await localizeAnalysis(analysis, locale, projectUsageOptions());
+      await saveLocalization(variant);
+      setActiveLocale(locale);
+    } catch (err) {
+      console.error("Localization failed", err);
+      setLocalizeError(toAnalysisError(err).message);
+    } finally {
+      setLocalizing(null);
+    }
+  };
+
+  const toggleScoreBreakdown = (rank: number) =>
+    setOpenScores(current => current.includes(rank) ? current.filter(r => r !== rank) : [...current, rank]);
+
+  const selectLocale = (locale: string | null) => {
+    setActiveLocale(locale);
+    setRegenerateError(null);
+  };
+
+  const showThumbnail = (thumb: GeneratedThumbnail) => {
+    setThumbnailUrl(thumb.url);
+    setActiveThumbId(thumb.id);
+    setThumbAspectRatio(thumb.aspectRatio);
+  };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    await handleFiles(files);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    await handleFiles(Array.from(e.dataTransfer.files as FileList));
+  };
+
+  // A single file keeps the focused one-shot flow; several files (or any file added while
+  // the queue is open) go to the batch queue.
+  const handleFiles = async (selected: File[]) => {
+    const videos = selected.filter(f => f.type.startsWith('video/'));
+    if (videos.length === 0) return;
+
+    const oversized = videos.filter(f => f.size > MAX_UPLOAD_SIZE);
+    const accepted = videos.filter(f => f.size <= MAX_UPLOAD_SIZE);
+    if (oversized.length > 0) {
+      setFileNotice(`Video file is too large. Please upload files under 2GB for analysis (${oversized.map(f => f.name).join(', ')}).`);
+    }
+    if (accepted.length === 0) return;
+
+    if (accepted.length === 1 && phase.name !== 'queue') {
+      pendingFileRef.current = accepted[0];
+      setPreviewFile(accepted[0]);
+      pendingHashRef.current = '';
+      await processFile(accepted[0]);
+      return;
+    }
+
+    queue.add(accepted);
+    showQueue();
+  };
+
+  const processFile = async (file: File, options: { skipCache?: boolean; skipBudget?: boolean } = {}) => {
+    // Starting a file supersedes whatever run was in flight; its late events are dropped by runId.
+    abortRun();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+    const runId = ++runRef.current;
+    setFileNotice(null);
+    setFileName(file.name);
+    dispatch({ type: 'START', runId, fileName: file.name });
+
+    let contentHash = pendingHashRef.current;
+    if (!contentHash) {
+      contentHash = await hashFile(file).catch((err) => {
+        console.error("Failed to hash video", err);
+        return '';
+      });
+      pendingHashRef.current = contentHash;
+    }
+    if (signal.aborted) return;
+
+    if (contentHash && !options.skipCache) {
+      const match = await findProjectByHash(contentHash).catch(() => undefined);
+      if (signal.aborted) return;
+      if (match) {
+        dispatch({ type: 'CACHED', runId, match });
+        return;
+      }
+    }
 
-    if (file.size > 50 * 1024 * 1024) {
-      setError("Video file is too large. Please upload a clip under 50MB for analysis.");
+    if (!options.skipBudget) {
+      const check = await checkRunBudget(file, signal);
+      if (signal.aborted) return;
+      if (check.status !== 'ok') {
+        dispatch({ type: 'OVER_BUDGET', runId, check });
+        return;
+      }
+    }
+
+    dispatch({ type: 'UPLOAD', runId });
+
+    let source: VideoSource;
+    try {
+      source = await prepareVideoSource(file, {
+        signal,
+        onProgress: (progress) => dispatch({ type: 'UPLOAD_PROGRESS', runId, progress })
+      });
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Upload Error:", err);
+      dispatch({ type: 'FAIL', runId, error: toAnalysisError(err), canResume: err instanceof UploadError && err.resumable });
       return;
     }
 
-    setState(AppState.UPLOADING);
-    setError(null);
-    setProgress('Ingesting content...');
+    dispatch({ type: 'ANALYZE', runId });
+    // The id is fixed up front so the analysis is billed to the project it becomes.
+    const projectId = createProjectId();
+    const onUsage = trackUsage({ projectId, label: file.name });
 
     try {
-      const reader = new FileReader();
-      reader.onload = async () => {
-        const base64 = (reader.result as string).split(',')[1];
-        
-        setState(AppState.ANALYZING);
-        setProgress('PRO AI is analyzing every frame from 00:00...');
-        
-        try {
-          const result = await analyzeVideo(base64, file.type);
-          setAnalysis(result);
-          
-          setState(AppState.GENERATING_THUMBNAIL);
-          setProgress('Generating cinematic visual assets...');
-          
-          const thumb = await generateThumbnail(result.thumbnailConcept.prompt, thumbAspectRatio);
-          setThumbnailUrl(thumb);
-          
-          setState(AppState.COMPLETED);
-          setProgress('');
-        } catch (err: any) {
-          console.error("Gemini Error:", err);
-          let msg = err.message || 'Unknown error occurred';
-          try {
-            const parsed = JSON.parse(msg);
-            msg = parsed.error?.message || msg;
-          } catch(e) {}
-          setError(msg);
-          setState(AppState.ERROR);
-        }
-      };
-      reader.readAsDataURL(file);
-    } catch (err) {
-      setError("Failed to read file.");
-      setState(AppState.ERROR);
+      const result = await analyzeVideo(source, {
+        platforms: enabledPlatforms,
+        profile: activeProfile,
+        signal,
+        onUsage,
+        onPartial: (partial) => dispatch({ type: 'PARTIAL', runId, partial }),
+        onRetry: (retry) => dispatch({ type: 'RETRY', runId, retry })
+      });
+      // A run cancelled or superseded while the last response arrived must not replace the current project.
+      if (signal.aborted) return;
+      history.reset(result);
+      setActiveLocale(null);
+      setThumbPrompt(result.thumbnailConcept.prompt);
+
+      // Save before generating the thumbnail so the analysis survives a thumbnail failure.
+      const saved = buildProject(file, contentHash, result, activeProfile?.id, projectId);
+      await persistProject(saved);
+
+      dispatch({ type: 'THUMBNAIL', runId });
+
+      const thumb = await createThumbnail(styleThumbnailPrompt(result.thumbnailConcept.prompt, activeProfile), thumbAspectRatio, 0, undefined, {
+        signal,
+        onUsage,
+        onRetry: (retry) => dispatch({ type: 'RETRY', runId, retry })
+      });
+      if (signal.aborted) return;
+      showThumbnail(thumb);
+      await updateThumbnails(() => [thumb]);
+
+      dispatch({ type: 'FINISH', runId });
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Gemini Error:", err);
+      dispatch({ type: 'FAIL', runId, error: toAnalysisError(err) });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
-  const handleRatioChange = async (newRatio: "16:9" | "9:16") => {
+  const resumeUpload = () => {
+    if (pendingFileRef.current) processFile(pendingFileRef.current, { skipCache: true });
+  };
+
+  const analyzeAgain = () => {
+    if (pendingFileRef.current) processFile(pendingFileRef.current, { skipCache: true });
+  };
+
+  // Only offered in warn mode; the budget check has already been shown and accepted.
+  const runOverBudget = () => {
+    if (pendingFileRef.current) processFile(pendingFileRef.current, { skipCache: true, skipBudget: true });
+  };
+
+  const openProject = (saved: Project) => {
+    // Projects saved by older versions may predate newer fields; normalize before rendering.
+    const thumbnails = saved.thumbnails.map(t => t.id ? t : { ...t, id: createProjectId() });
+    const restored = { ...saved, thumbnails, analysis: validateAnalysis(saved.analysis, saved.analysis).analysis };
+    const latest = thumbnails[thumbnails.length - 1];
+    projectRef.current = restored;
+    setProject(restored);
+    setIsEditingThumb(false);
+    history.reset(restored.analysis);
+    setActiveLocale(null);
+    setLocalizeError(null);
+    setThumbPrompt(restored.analysis.thumbnailConcept.prompt);
+    setThumbnailUrl(latest?.url || null);
+    setActiveThumbId(latest?.id || null);
+    setThumbAspectRatio(latest?.aspectRatio || "9:16");
+    setFileName(saved.fileName);
+    setFileNotice(null);
+    // Keeps the preview when a fresh upload resolved to this saved project.
+    setPreviewFile(pendingFileRef.current);
+    pendingFileRef.current = null;
+    pendingHashRef.current = '';
+    abortRun();
+    dispatch({ type: 'OPEN_PROJECT' });
+  };
+
+  // Every generated image is appended to the gallery; nothing is overwritten.
+  const generateVariants = async (ratio: ThumbnailAspectRatio, count: number) => {
     if (!analysis || isRegeneratingThumb) return;
-    setThumbAspectRatio(newRatio);
+    const prompt = thumbPrompt.trim() || analysis.thumbnailConcept.prompt;
+    setIsEditingThumb(false);
     setIsRegeneratingThumb(true);
     try {
-      const thumb = await generateThumbnail(analysis.thumbnailConcept.prompt, newRatio);
-      setThumbnailUrl(thumb);
+      const thumbs = await createThumbnailVariants(styleThumbnailPrompt(prompt, projectProfile), ratio, count, referenceFrame || undefined, projectUsageOptions());
+      showThumbnail(thumbs[0]);
+      await updateThumbnails(current => [...current, ...thumbs]);
     } catch (err) {
       console.error("Failed to regenerate thumbnail", err);
     } finally {
@@ -91,12 +476,87 @@ const App: React.FC = () => {
     }
   };
 
+  // The frame itself becomes the thumbnail, cropped to the current ratio; the editor opens to add text.
+  const applyFrameBackground = async (frame: CandidateFrame) => {
+    if (isRegeneratingThumb) return;
+    try {
+      const url = await cropFrameToAspect(frame, thumbAspectRatio);
+      const thumb: GeneratedThumbnail = {
+        id: createProjectId(),
+        url,
+        prompt: `Video frame at ${formatClock(frame.time)}`,
+        aspectRatio: thumbAspectRatio,
+        createdAt: Date.now(),
+        frameTime: frame.time
+      };
+      showThumbnail(thumb);
+      await updateThumbnails(current => [...current, thumb]);
+      setIsEditingThumb(true);
+    } catch (err) {
+      console.error("Failed to use frame as thumbnail", err);
+    }
+  };
+
+  // Switching ratio shows the newest image in that ratio, generating one only if none exists yet.
+  const handleRatioChange = async (newRatio: ThumbnailAspectRatio) => {
+    if (!analysis || isRegeneratingThumb) return;
+    setThumbAspectRatio(newRatio);
+    setIsEditingThumb(false);
+    const existing = [...(projectRef.current?.thumbnails || [])].reverse().find(t => t.aspectRatio === newRatio);
+    if (existing) {
+      showThumbnail(existing);
+    } else {
+      await generateVariants(newRatio, 1);
+    }
+  };
+
+  const togglePick = (id: string) => {
+    updateThumbnails(thumbs => {
+      const pickedCount = thumbs.filter(t => t.picked).length;
+      return thumbs.map(t => t.id !== id ? t : { ...t, picked: t.picked ? false : pickedCount < MAX_AB_PICKS });
+    });
+  };
+
+  const deleteThumbnail = (id: string) => {
+    const remaining = (projectRef.current?.thumbnails || []).filter(t => t.id !== id);
+    if (id === activeThumbId) {
+      const fallback = remaining[remaining.length - 1];
+      if (fallback) showThumbnail(fallback);
+      else {
+        setThumbnailUrl(null);
+        setActiveThumbId(null);
+      }
+    }
+    updateThumbnails(() => remaining);
+  };
+
+  const saveEditedThumbnail = async (dataUrl: string, aspectRatio: ThumbnailAspectRatio) => {
+    if (!analysis) return;
+    const edited: GeneratedThumbnail = { id: createProjectId(), url: dataUrl, prompt: thumbPrompt || analysis.thumbnailConcept.prompt, aspectRatio, createdAt: Date.now() };
+    showThumbnail(edited);
+    await updateThumbnails(current => [...current, edited]);
+  };
+
   const reset = () => {
-    setState(AppState.IDLE);
-    setAnalysis(null);
+    abortRun();
+    dispatch({ type: 'RESET' });
+    setIsEditingThumb(false);
+    history.reset(null);
+    setRegenerating(null);
+    setRegenerateError(null);
+    setActiveLocale(null);
+    setLocalizeError(null);
     setThumbnailUrl(null);
+    setActiveThumbId(null);
+    setThumbPrompt('');
     setThumbAspectRatio("9:16");
-    setError(null);
+    setFileNotice(null);
+    setFileName('');
+    setProject(null);
+    projectRef.current = null;
+    setPreviewFile(null);
+    pendingFileRef.current = null;
+    pendingHashRef.current = '';
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
@@ -104,6 +564,26 @@ const App: React.FC = () => {
     navigator.clipboard.writeText(text);
   };
 
+  const titleLimits = titleLimitsFor(enabledPlatforms);
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const projectProfile = profiles.find(p => p.id === project?.profileId);
+  // Banned words and hashtags are written in the channel's language, so localized copy is not checked.
+  const checkedProfile = view?.locale ? undefined : projectProfile;
+
+  // Each language exports separately; localized files carry the locale code in their name.
+  const localeSuffix = view?.locale ? `.${view.locale}` : '';
+
+  const downloadCaptions = (format: CaptionFormat) => {
+    if (!view?.segments?.length) return;
+    const { content, mimeType } = buildCaptionFile(view.segments, format);
+    downloadFile(content, `${toFileSlug(fileName)}-captions${localeSuffix}.${format}`, mimeType);
+  };
+
+  const downloadCopySheet = () => {
+    if (!view) return;
+    downloadFile(buildCopySheet(view, fileName), `${toFileSlug(fileName)}-copy${localeSuffix}.txt`);
+  };
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 p-4 md:p-8 selection:bg-indigo-500 font-['Inter']">
       {/* Header */}
@@ -114,22 +594,55 @@ const App: React.FC = () => {
           </div>
           <div>
             <h1 className="text-3xl font-black tracking-tighter text-white uppercase italic">VidiGenius <span className="text-indigo-500 font-bold">PRO</span></h1>
-            <p className="text-slate-400 text-xs font-semibold tracking-widest uppercase">Precision Analysis Engine</p>
+            <p className="text-slate-400 text-xs font-semibold tracking-widest uppercase">
+              Precision Analysis Engine
+              {getProvider().id === 'mock' && <span className="ml-2 px-2 py-0.5 bg-amber-500/20 text-amber-400 rounded">Mock Mode</span>}
+            </p>
           </div>
         </div>
-        {state !== AppState.IDLE && (
-          <button 
-            onClick={reset}
-            className="px-5 py-2.5 text-sm font-bold bg-slate-800 hover:bg-slate-700 rounded-full transition-all flex items-center gap-2 border border-slate-700"
-          >
-            <ArrowPathIcon className="w-4 h-4" />
-            New Project
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          {phase.name === 'completed' && project && <ProjectExportMenu project={project} />}
+          {jobs.length > 0 && phase.name !== 'queue' && (
+            <button 
+              onClick={showQueue}
+              className="px-5 py-2.5 text-sm font-bold bg-slate-900 hover:bg-slate-800 rounded-full transition-all flex items-center gap-2 border border-slate-800"
+            >
+              <QueueListIcon className="w-4 h-4" />
+              Queue ({jobs.filter(j => j.status === 'done').length}/{jobs.length})
+            </button>
+          )}
+          {phase.name !== 'usage' && (
+            <button 
+              onClick={showUsage}
+              className="px-5 py-2.5 text-sm font-bold bg-slate-900 hover:bg-slate-800 rounded-full transition-all flex items-center gap-2 border border-slate-800"
+            >
+              <BanknotesIcon className="w-4 h-4" />
+              Usage
+            </button>
+          )}
+          {phase.name !== 'library' && (
+            <button 
+              onClick={showLibrary}
+              className="px-5 py-2.5 text-sm font-bold bg-slate-900 hover:bg-slate-800 rounded-full transition-all flex items-center gap-2 border border-slate-800"
+            >
+              <FolderOpenIcon className="w-4 h-4" />
+              Library
+            </button>
+          )}
+          {phase.name !== 'idle' && (
+            <button 
+              onClick={reset}
+              className="px-5 py-2.5 text-sm font-bold bg-slate-800 hover:bg-slate-700 rounded-full transition-all flex items-center gap-2 border border-slate-700"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              New Project
+            </button>
+          )}
+        </div>
       </header>
 
       <main className="max-w-5xl mx-auto">
-        {state === AppState.IDLE && (
+        {phase.name === 'idle' && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] text-center">
             <div className="mb-12">
               <h2 className="text-5xl md:text-7xl font-black text-white mb-6 tracking-tight">AI Video <span className="text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-purple-400">Strategist.</span></h2>
@@ -138,121 +651,283 @@ const App: React.FC = () => {
             
             <div 
               onClick={() => fileInputRef.current?.click()}
-              className="w-full max-w-3xl group relative glass rounded-[2.5rem] p-16 text-center cursor-pointer border-dashed border-2 border-slate-700 hover:border-indigo-500 hover:bg-slate-900/40 transition-all duration-500"
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`w-full max-w-3xl group relative glass rounded-[2.5rem] p-16 text-center cursor-pointer border-dashed border-2 hover:border-indigo-500 hover:bg-slate-900/40 transition-all duration-500 ${
+                isDragging ? 'border-indigo-500 bg-slate-900/40' : 'border-slate-700'
+              }`}
             >
               <div className="absolute inset-0 bg-gradient-to-tr from-indigo-500/10 via-transparent to-purple-500/10 rounded-[2.5rem] group-hover:opacity-100 opacity-0 transition-opacity" />
               <div className="relative z-10">
                 <CloudArrowUpIcon className="w-16 h-16 mx-auto text-slate-500 group-hover:text-indigo-400 transition-colors mb-6" />
                 <h3 className="text-2xl font-bold mb-3 text-white">Select Video Content</h3>
-                <p className="text-slate-500 mb-10">MP4, MOV, WEBM (Max 50MB)</p>
+                <p className="text-slate-500 mb-10">MP4, MOV, WEBM (Max 2GB) · Drop several files to batch them</p>
                 <div className="inline-flex items-center gap-2 px-10 py-4 bg-white text-slate-950 font-black rounded-2xl group-hover:bg-indigo-400 group-hover:text-white transition-all transform group-hover:-translate-y-1 shadow-xl uppercase">
                   Analyze from 00:00
                 </div>
               </div>
             </div>
-            <input 
-              type="file" 
-              ref={fileInputRef} 
-              onChange={handleFileUpload} 
-              className="hidden" 
-              accept="video/*"
-            />
+            <div className="mt-8 flex flex-col items-center gap-4 w-full max-w-3xl">
+              <PlatformPicker enabled={enabledPlatforms} onChange={changePlatforms} />
+              <ChannelProfiles profiles={profiles} activeId={activeProfileId} onSelect={changeActiveProfile} onProfilesChange={setProfiles} />
+            </div>
+            {fileNotice && <p className="text-red-400 text-sm font-mono mt-6">{fileNotice}</p>}
           </div>
         )}
 
-        {(state === AppState.UPLOADING || state === AppState.ANALYZING || state === AppState.GENERATING_THUMBNAIL) && (
-          <div className="flex flex-col items-center justify-center min-h-[60vh]">
-            <div className="relative w-32 h-32 mb-10">
-              <div className="absolute inset-0 rounded-full border-4 border-slate-800" />
-              <div className="absolute inset-0 rounded-full border-4 border-indigo-500 border-t-transparent animate-spin" />
-              <SparklesIcon className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-10 h-10 text-white drop-shadow-[0_0_15px_rgba(99,102,241,0.5)]" />
+        <input 
+          type="file" 
+          ref={fileInputRef} 
+          onChange={handleFileUpload} 
+          className="hidden" 
+          accept="video/*"
+          multiple
+        />
+
+        {phase.name === 'queue' && (
+          <JobDashboard
+            jobs={jobs}
+            concurrency={concurrency}
+            onConcurrencyChange={(limit) => { queue.setConcurrency(limit); setConcurrency(queue.getConcurrency()); }}
+            onAddFiles={() => fileInputRef.current?.click()}
+            onRetry={(id) => queue.retry(id)}
+            onCancel={(id) => queue.cancel(id)}
+            onRemove={(id) => queue.remove(id)}
+            onClearFinished={() => queue.clearFinished()}
+            onOpen={openProject}
+          />
+        )}
+
+        {isRunning(phase) && <AnalysisProgress phase={phase} onCancel={cancelRun} />}
+
+        {phase.name === 'library' && <ProjectLibrary onOpen={openProject} />}
+
+        {phase.name === 'usage' && <UsageDashboard records={usageRecords} />}
+
+        {phase.name === 'overBudget' && (
+          <div className="glass border-amber-500/20 p-12 rounded-[2.5rem] text-center max-w-2xl mx-auto shadow-2xl">
+            <BanknotesIcon className="w-16 h-16 text-amber-400 mx-auto mb-6" />
+            <h3 className="text-2xl font-bold text-white mb-3">{errorTitle('BUDGET')}</h3>
+            <p className="text-slate-400 mb-10 text-sm">
+              {budgetMessage(phase.check)}
+              {phase.check.status === 'block' && ' Raise the budget or switch it to warn to run it.'}
+            </p>
+            <div className="flex items-center justify-center gap-4 flex-wrap">
+              {phase.check.status === 'warn' && (
+                <button 
+                  onClick={runOverBudget}
+                  className="px-10 py-4 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded-2xl transition-all"
+                >
+                  Run Anyway
+                </button>
+              )}
+              <button 
+                onClick={showUsage}
+                className="px-10 py-4 bg-slate-800 hover:bg-slate-700 text-white font-bold rounded-2xl transition-all"
+              >
+                Change Budget
+              </button>
+              <button 
+                onClick={reset}
+                className="px-10 py-4 bg-slate-800 hover:bg-slate-700 text-white font-bold rounded-2xl transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase.name === 'cachedMatch' && (
+          <div className="glass border-indigo-500/20 p-12 rounded-[2.5rem] text-center max-w-2xl mx-auto shadow-2xl">
+            <FolderOpenIcon className="w-16 h-16 text-indigo-400 mx-auto mb-6" />
+            <h3 className="text-2xl font-bold text-white mb-3">Already Analyzed</h3>
+            <p className="text-slate-400 mb-10 text-sm">
+              This video matches <span className="text-white font-bold">"{phase.match.name}"</span>, saved {new Date(phase.match.createdAt).toLocaleString()}.
+              Open the saved result for free, or run a fresh (billed) analysis.
+            </p>
+            <div className="flex items-center justify-center gap-4 flex-wrap">
+              <button 
+                onClick={() => openProject(phase.match)}
+                className="px-10 py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-2xl transition-all"
+              >
+                Open Saved Result
+              </button>
+              <button 
+                onClick={analyzeAgain}
+                className="px-10 py-4 bg-slate-800 hover:bg-slate-700 text-white font-bold rounded-2xl transition-all"
+              >
+                Analyze Again
+              </button>
             </div>
-            <h2 className="text-3xl font-black mb-3 text-white uppercase tracking-widest">{state.replace('_', ' ')}</h2>
-            <p className="text-indigo-400 font-mono animate-pulse">{progress}</p>
           </div>
         )}
 
-        {state === AppState.ERROR && (
+        {phase.name === 'error' && (
           <div className="glass border-red-500/20 p-12 rounded-[2.5rem] text-center max-w-2xl mx-auto shadow-2xl">
             <ExclamationCircleIcon className="w-16 h-16 text-red-500 mx-auto mb-6" />
-            <h3 className="text-2xl font-bold text-white mb-3">Analysis Halted</h3>
+            <h3 className="text-2xl font-bold text-white mb-3">{errorTitle(phase.error.code)}</h3>
             <p className="text-slate-400 mb-10 font-mono text-sm bg-slate-950/50 p-4 rounded-xl border border-slate-800 break-words">
-              {error}
+              {phase.error.message}
             </p>
-            <button 
-              onClick={reset}
-              className="px-10 py-4 bg-slate-800 hover:bg-slate-700 text-white font-bold rounded-2xl transition-all"
-            >
-              Try Another File
-            </button>
+            <div className="flex items-center justify-center gap-4 flex-wrap">
+              {phase.canResume && (
+                <button 
+                  onClick={resumeUpload}
+                  className="px-10 py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-2xl transition-all"
+                >
+                  Resume Upload
+                </button>
+              )}
+              <button 
+                onClick={reset}
+                className="px-10 py-4 bg-slate-800 hover:bg-slate-700 text-white font-bold rounded-2xl transition-all"
+              >
+                Try Another File
+              </button>
+            </div>
           </div>
         )}
 
-        {state === AppState.COMPLETED && analysis && (
+        {phase.name === 'completed' && analysis && view && (
           <div className="flex flex-col gap-10 pb-32 animate-in fade-in slide-in-from-bottom-4 duration-700">
-            
+            <EditHistory
+              entries={history.entries}
+              index={history.index}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={history.undo}
+              onRedo={history.redo}
+              onJump={history.goTo}
+            />
+
+            <ProjectUsage records={projectUsage} onShowDashboard={showUsage} />
+
+            <LocaleSwitcher
+              available={Object.keys(project?.localizations || {})}
+              active={view.locale || null}
+              busy={localizing}
+              error={localizeError}
+              onSelect={selectLocale}
+              onLocalize={localize}
+              onDownloadCopy={downloadCopySheet}
+            />
+
             {/* 1. Viral Titles (First) */}
             <section className="glass rounded-[2rem] p-8 border-indigo-500/10 shadow-xl">
-              <div className="flex items-center gap-3 mb-8">
-                <div className="p-2 bg-indigo-600/20 rounded-lg">
-                  <ChartBarIcon className="w-6 h-6 text-indigo-400" />
+              <div className="flex items-center justify-between mb-8">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-indigo-600/20 rounded-lg">
+                    <ChartBarIcon className="w-6 h-6 text-indigo-400" />
+                  </div>
+                  <h3 className="text-2xl font-black text-white uppercase italic">Viral Title Options</h3>
                 </div>
-                <h3 className="text-2xl font-black text-white uppercase italic">Viral Title Options</h3>
+                <RegenerateControl busy={regenerating === 'titles'} error={regenerateError?.section === 'titles' ? regenerateError.message : undefined} placeholder='e.g. "more curiosity gap, no clickbait"' onRegenerate={(g) => regenerate('titles', g)} />
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {analysis.titles.sort((a,b) => a.rank - b.rank).map((title, idx) => (
-                  <div 
-                    key={idx} 
-                    className={`p-6 rounded-2xl border transition-all cursor-pointer group relative overflow-hidden ${
-                      title.rank === 1 ? 'bg-indigo-600/10 border-indigo-500/30 ring-1 ring-indigo-500/20' : 'bg-slate-900/40 border-slate-800 hover:border-slate-700'
-                    }`}
-                    onClick={() => copyToClipboard(title.text)}
-                  >
-                    <div className="flex justify-between items-center mb-3">
-                      <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${
-                        title.rank === 1 ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-500'
-                      }`}>
-                        Score {100 - (title.rank * 5)}%
-                      </span>
-                      <ClipboardIcon className="w-4 h-4 text-slate-500 group-hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-all" />
+                {[...view.titles].sort((a,b) => a.rank - b.rank).map((title, idx, sorted) => {
+                  const score = scoreTitle(title.text, {
+                    keywords: view.trendingKeywords,
+                    limits: titleLimits,
+                    others: sorted.filter((_, i) => i !== idx).map(t => t.text),
+                    rank: title.rank
+                  });
+                  return (
+                    <div 
+                      key={idx} 
+                      className={`p-6 rounded-2xl border transition-all group relative overflow-hidden ${
+                        title.rank === 1 ? 'bg-indigo-600/10 border-indigo-500/30 ring-1 ring-indigo-500/20' : 'bg-slate-900/40 border-slate-800 hover:border-slate-700'
+                      }`}
+                    >
+                      <div className="flex justify-between items-center mb-3">
+                        <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${
+                          title.rank === 1 ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-500'
+                        }`}>
+                          #{title.rank} · Score {score.total}
+                        </span>
+                        <div className="flex items-center gap-3">
+                          <button onClick={() => toggleScoreBreakdown(title.rank)} title="How this score was calculated" className="text-slate-500 hover:text-white">
+                            <ChevronDownIcon className={`w-4 h-4 transition-transform ${openScores.includes(title.rank) ? 'rotate-180' : ''}`} />
+                          </button>
+                          <button onClick={() => copyToClipboard(title.text)} title="Copy title">
+                            <ClipboardIcon className="w-4 h-4 text-slate-500 hover:text-indigo-400 opacity-0 group-hover:opacity-100 transition-all" />
+                          </button>
+                        </div>
+                      </div>
+                      <EditableText
+                        value={title.text}
+                        rows={2}
+                        onCommit={(text) => editTitle(title.rank, text)}
+                        className="w-full bg-transparent text-lg font-black text-white mb-2 uppercase italic leading-tight resize-none rounded-lg border border-transparent hover:border-slate-700 -mx-1 px-1"
+                      />
+                      {titleLimits && <LimitStatus text={title.text} limits={titleLimits} onTrim={(text) => editTitle(title.rank, text)} />}
+                      {checkedProfile && (
+                        <ProfileStatus
+                          text={title.text}
+                          profile={checkedProfile}
+                          requireHashtags={false}
+                          busy={regenerating === 'titles'}
+                          onFix={(text) => editTitle(title.rank, text)}
+                          onRewrite={(g) => regenerate('titles', g)}
+                        />
+                      )}
+                      <p className="text-[10px] text-slate-500 leading-normal">{title.reasoning}</p>
+                      {openScores.includes(title.rank) && <TitleScoreBreakdown score={score} />}
                     </div>
-                    <p className="text-lg font-black text-white mb-2 uppercase italic leading-tight">{title.text}</p>
-                    <p className="text-[10px] text-slate-500 leading-normal">{title.reasoning}</p>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
+              <TitleTester keywords={view.trendingKeywords} limits={titleLimits} candidates={view.titles.map(t => t.text)} />
             </section>
 
-            {/* 2. Descriptions (Second) */}
-            <section className="grid grid-cols-1 md:grid-cols-2 gap-8">
-              <div className="glass rounded-[2rem] p-8 border-red-500/10 shadow-xl">
-                <div className="flex items-center justify-between mb-6">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-red-600/20 rounded-lg">
-                      <GlobeAltIcon className="w-6 h-6 text-red-400" />
-                    </div>
-                    <h3 className="text-xl font-black text-white uppercase italic">YouTube SEO</h3>
-                  </div>
-                  <button onClick={() => copyToClipboard(analysis.descriptions.youtube)} className="px-4 py-1.5 bg-red-600/10 text-red-400 text-[10px] font-black rounded-lg hover:bg-red-600/20 transition-all">COPY</button>
-                </div>
-                <textarea readOnly value={analysis.descriptions.youtube} className="w-full h-48 bg-slate-950/50 rounded-xl p-4 text-[11px] text-slate-400 border border-slate-800 resize-none custom-scrollbar" />
-              </div>
-
-              <div className="glass rounded-[2rem] p-8 border-pink-500/10 shadow-xl">
-                <div className="flex items-center justify-between mb-6">
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-pink-600/20 rounded-lg">
-                      <DevicePhoneMobileIcon className="w-6 h-6 text-pink-400" />
-                    </div>
-                    <h3 className="text-xl font-black text-white uppercase italic">Instagram Viral</h3>
-                  </div>
-                  <button onClick={() => copyToClipboard(analysis.descriptions.instagram)} className="px-4 py-1.5 bg-pink-600/10 text-pink-400 text-[10px] font-black rounded-lg hover:bg-pink-600/20 transition-all">COPY</button>
-                </div>
-                <textarea readOnly value={analysis.descriptions.instagram} className="w-full h-48 bg-slate-950/50 rounded-xl p-4 text-[11px] text-slate-400 border border-slate-800 resize-none custom-scrollbar" />
+            {/* 2. Platform copy (Second) */}
+            <section className="flex flex-col gap-6">
+              <PlatformPicker enabled={enabledPlatforms} onChange={changePlatforms} />
+              <ChannelProfiles profiles={profiles} activeId={project?.profileId || null} onSelect={changeProjectProfile} onProfilesChange={setProfiles} />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                {enabledPlatforms.map(id => (
+                  <PlatformCard
+                    key={id}
+                    platform={getPlatform(id)}
+                    text={view.descriptions[id]}
+                    profile={checkedProfile}
+                    busy={regenerating === id}
+                    error={regenerateError?.section === id ? regenerateError.message : undefined}
+                    onCommit={(text, action) => editDescription(id, text, action)}
+                    onRegenerate={(g) => regenerate(id, g)}
+                    onCopy={copyToClipboard}
+                  />
+                ))}
               </div>
             </section>
 
-            {/* 3. Transcription (Third) */}
+            {/* 3. Chapters */}
+            <ChapterPanel
+              chapters={view.chapters || []}
+              segments={view.segments}
+              videoFile={previewFile}
+              hasYoutubeCopy={view.descriptions.youtube !== undefined}
+              onAttachVideo={setPreviewFile}
+              onChange={editChapters}
+              onInsert={insertChapterList}
+            />
+
+            {/* 4. Shorts highlights */}
+            <HighlightClips
+              highlights={view.highlights || []}
+              segments={view.segments}
+              videoFile={previewFile}
+              projectName={project?.name || fileName}
+              onAttachVideo={setPreviewFile}
+              onChange={editHighlights}
+              onCreateCover={createHighlightCover}
+              onCoverExported={keepHighlightCover}
+            />
+
+            {/* 5. Trend Research (grounded in live search) */}
+            <TrendResearch analysis={analysis} />
+
+            {/* 6. Transcription */}
             <section className="glass rounded-[2rem] p-8 border-slate-500/10 shadow-xl">
               <div className="flex items-center justify-between mb-6">
                 <div className="flex items-center gap-3">
@@ -263,15 +938,42 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex items-center gap-2">
                    <span className="text-[10px] font-black text-indigo-500 uppercase tracking-widest px-3 py-1 bg-indigo-500/10 rounded-full border border-indigo-500/20">00:00 Accuracy Verified</span>
-                   <button onClick={() => copyToClipboard(analysis.transcription)} className="p-2 text-slate-500 hover:text-white transition-colors"><ClipboardIcon className="w-5 h-5" /></button>
+                   <button onClick={() => copyToClipboard(view.transcription)} className="p-2 text-slate-500 hover:text-white transition-colors"><ClipboardIcon className="w-5 h-5" /></button>
                 </div>
               </div>
+              {view.segments?.length > 0 && (
+                <div className="flex items-center gap-2 mb-4 flex-wrap">
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-2">Export Captions</span>
+                  {([["srt", "SRT"], ["vtt", "WebVTT"], ["txt", "Burn-in Text"]] as [CaptionFormat, string][]).map(([format, label]) => (
+                    <button
+                      key={format}
+                      onClick={() => downloadCaptions(format)}
+                      className="px-4 py-1.5 bg-slate-800/60 text-slate-300 text-[10px] font-black rounded-lg hover:bg-indigo-600/20 hover:text-indigo-300 transition-all flex items-center gap-1.5 uppercase"
+                    >
+                      <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="bg-slate-950/50 rounded-2xl p-8 max-h-[400px] overflow-y-auto border border-slate-800 text-slate-300 leading-relaxed whitespace-pre-wrap font-medium custom-scrollbar shadow-inner">
-                {analysis.transcription}
+                {view.segments?.length > 0 ? (
+                  <div className="space-y-3">
+                    {normalizeSegments(view.segments).map((segment, idx) => (
+                      <div key={idx} className="flex gap-4">
+                        <span className="text-[10px] font-mono text-indigo-400 pt-1 shrink-0 w-12">{formatClock(segment.start)}</span>
+                        <p>
+                          {segment.speaker && <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-2">{segment.speaker}</span>}
+                          {segment.text}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : view.transcription}
               </div>
             </section>
 
-            {/* 4. Thumbnail (Finally - Defaulting to 9:16) */}
+            {/* 7. Thumbnail (Finally - Defaulting to 9:16) */}
             <section className="glass rounded-[2.5rem] p-10 border-indigo-500/20 shadow-2xl bg-gradient-to-b from-slate-900/50 to-transparent">
               <div className="flex items-center justify-between flex-wrap gap-6 mb-10">
                 <div className="flex items-center gap-4">
@@ -285,29 +987,23 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="flex bg-slate-950 p-1.5 rounded-2xl border border-slate-800 shadow-inner">
-                  <button 
-                    onClick={() => handleRatioChange("9:16")}
-                    className={`px-6 py-2.5 text-xs font-black rounded-xl transition-all uppercase tracking-widest flex items-center gap-2 ${
-                      thumbAspectRatio === "9:16" ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-slate-500 hover:text-slate-300'
-                    }`}
-                  >
-                    <DevicePhoneMobileIcon className="w-4 h-4" />
-                    9:16
-                  </button>
-                  <button 
-                    onClick={() => handleRatioChange("16:9")}
-                    className={`px-6 py-2.5 text-xs font-black rounded-xl transition-all uppercase tracking-widest flex items-center gap-2 ${
-                      thumbAspectRatio === "16:9" ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-slate-500 hover:text-slate-300'
-                    }`}
-                  >
-                    <RectangleGroupIcon className="w-4 h-4" />
-                    16:9
-                  </button>
+                  {([["9:16", DevicePhoneMobileIcon], ["16:9", RectangleGroupIcon], ["1:1", StopIcon], ["4:5", Square2StackIcon]] as [ThumbnailAspectRatio, typeof PhotoIcon][]).map(([ratio, Icon]) => (
+                    <button 
+                      key={ratio}
+                      onClick={() => handleRatioChange(ratio)}
+                      className={`px-5 py-2.5 text-xs font-black rounded-xl transition-all uppercase tracking-widest flex items-center gap-2 ${
+                        thumbAspectRatio === ratio ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-slate-500 hover:text-slate-300'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {ratio}
+                    </button>
+                  ))}
                 </div>
               </div>
 
               <div className="flex flex-col lg:flex-row gap-10 items-start">
-                <div className={`relative group rounded-[2rem] overflow-hidden bg-black shadow-2xl border border-slate-800 transition-all shrink-0 ${thumbAspectRatio === '9:16' ? 'max-w-[340px] mx-auto' : 'w-full lg:max-w-2xl'}`}>
+                <div className={`relative group rounded-[2rem] overflow-hidden bg-black shadow-2xl border border-slate-800 transition-all shrink-0 ${thumbAspectRatio === '16:9' ? 'w-full lg:max-w-2xl' : thumbAspectRatio === '9:16' ? 'max-w-[340px] mx-auto' : 'max-w-[420px] mx-auto'}`}>
                   {thumbnailUrl ? (
                     <img src={thumbnailUrl} alt="Thumbnail" className={`w-full h-auto transition-all duration-1000 ${isRegeneratingThumb ? 'opacity-30 blur-2xl scale-95' : 'opacity-100'}`} />
                   ) : (
@@ -319,13 +1015,19 @@ const App: React.FC = () => {
                       <span className="text-[10px] font-black text-white uppercase tracking-[0.3em]">Processing Pixels...</span>
                     </div>
                   )}
-                  <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-8">
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end gap-3 p-8">
                      <button onClick={() => {
                        const link = document.createElement('a');
                        link.href = thumbnailUrl || '';
-                       link.download = `VidiGenius-Thumbnail-${thumbAspectRatio}.png`;
+                       link.download = `VidiGenius-Thumbnail-${thumbAspectRatio.replace(':', 'x')}.png`;
                        link.click();
-                     }} className="w-full py-4 bg-white text-black font-black rounded-xl uppercase tracking-tighter hover:bg-indigo-400 hover:text-white transition-all">Download HD</button>
+                     }} className="flex-1 py-4 bg-white text-black font-black rounded-xl uppercase tracking-tighter hover:bg-indigo-400 hover:text-white transition-all">Download HD</button>
+                     {thumbnailUrl && (
+                       <button onClick={() => setIsEditingThumb(true)} className="px-5 py-4 bg-indigo-600 text-white font-black rounded-xl uppercase tracking-tighter hover:bg-indigo-500 transition-all flex items-center gap-2">
+                         <PencilSquareIcon className="w-5 h-5" />
+                         Edit
+                       </button>
+                     )}
                   </div>
                 </div>
 
@@ -338,22 +1040,80 @@ const App: React.FC = () => {
                     <p className="text-lg text-slate-100 leading-relaxed italic mb-8 font-medium">"{analysis.thumbnailConcept.idea}"</p>
                     
                     <div className="pt-6 border-t border-slate-800/50">
-                      <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">Generation Seed Prompt</h4>
-                      <div className="bg-slate-950/80 p-4 rounded-xl border border-slate-800">
-                        <p className="text-[11px] text-slate-500 font-mono break-words leading-relaxed">{analysis.thumbnailConcept.prompt}</p>
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Generation Seed Prompt</h4>
+                        {thumbPrompt !== analysis.thumbnailConcept.prompt && (
+                          <button onClick={() => setThumbPrompt(analysis.thumbnailConcept.prompt)} className="text-[10px] font-black text-slate-500 hover:text-white uppercase tracking-widest">Reset</button>
+                        )}
+                      </div>
+                      <textarea
+                        value={thumbPrompt}
+                        onChange={(e) => setThumbPrompt(e.target.value)}
+                        rows={4}
+                        className="w-full bg-slate-950/80 p-4 rounded-xl border border-slate-800 focus:border-indigo-500 outline-none text-[11px] text-slate-400 font-mono leading-relaxed resize-none custom-scrollbar"
+                      />
+                      <div className="flex items-center gap-3 mt-4">
+                        <select
+                          value={variantCount}
+                          onChange={(e) => setVariantCount(Number(e.target.value))}
+                          className="bg-slate-950 border border-slate-800 rounded-xl px-3 py-2.5 text-xs text-slate-300"
+                        >
+                          {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n} variant{n > 1 ? 's' : ''}</option>)}
+                        </select>
+                        <button
+                          onClick={() => generateVariants(thumbAspectRatio, variantCount)}
+                          disabled={isRegeneratingThumb || !thumbPrompt.trim()}
+                          className="flex-1 px-4 py-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-xs font-black rounded-xl uppercase tracking-widest flex items-center justify-center gap-2 transition-all"
+                        >
+                          <SparklesIcon className="w-4 h-4" />
+                          Generate {thumbAspectRatio}{referenceFrame ? ` from ${formatClock(referenceFrame.time)}` : ''}
+                        </button>
                       </div>
                     </div>
                   </div>
 
-                  <div className="flex items-center gap-4 p-6 glass rounded-2xl border-emerald-500/10">
-                    <div className="p-3 bg-emerald-500/20 rounded-xl"><GlobeAltIcon className="w-6 h-6 text-emerald-400" /></div>
+                  <div className={`flex items-center gap-4 p-6 glass rounded-2xl ${analysis.sources.length > 0 ? 'border-emerald-500/10' : 'border-amber-500/10'}`}>
+                    <div className={`p-3 rounded-xl ${analysis.sources.length > 0 ? 'bg-emerald-500/20' : 'bg-amber-500/20'}`}>
+                      <GlobeAltIcon className={`w-6 h-6 ${analysis.sources.length > 0 ? 'text-emerald-400' : 'text-amber-400'}`} />
+                    </div>
                     <div>
-                      <h4 className="text-xs font-black text-white uppercase mb-1 italic">Optimization Verified</h4>
-                      <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Calculated with real-time market trends</p>
+                      <h4 className="text-xs font-black text-white uppercase mb-1 italic">{analysis.sources.length > 0 ? 'Search Grounded' : 'Not Search Grounded'}</h4>
+                      <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                        {analysis.sources.length > 0 ? `Backed by ${analysis.sources.length} live search sources` : 'No live search results were returned for this run'}
+                      </p>
                     </div>
                   </div>
                 </div>
               </div>
+
+              <FramePicker
+                videoFile={previewFile}
+                selected={referenceFrame}
+                busy={isRegeneratingThumb}
+                onSelect={setReferenceFrame}
+                onUseAsBackground={applyFrameBackground}
+                onAttachVideo={setPreviewFile}
+              />
+
+              <ThumbnailGallery
+                thumbnails={project?.thumbnails || []}
+                activeId={activeThumbId}
+                onSelect={(thumb) => { setIsEditingThumb(false); showThumbnail(thumb); }}
+                onTogglePick={togglePick}
+                onDelete={deleteThumbnail}
+              />
+
+              {isEditingThumb && thumbnailUrl && (
+                <div className="mt-10">
+                  <ThumbnailEditor
+                    imageUrl={thumbnailUrl}
+                    aspectRatio={thumbAspectRatio}
+                    headline={[...analysis.titles].sort((a, b) => a.rank - b.rank)[0]?.text || ''}
+                    onClose={() => setIsEditingThumb(false)}
+                    onSave={saveEditedThumbnail}
+                  />
+                </div>
+              )}
             </section>
 
           </div>
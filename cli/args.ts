@@ -0,0 +1,99 @@
+import { parseArgs } from "node:util";
+import { PlatformId, ThumbnailAspectRatio } from "../types";
+import { THUMBNAIL_ASPECT_RATIOS as ASPECT_RATIOS } from "../services/pipeline";
+import { DEFAULT_PLATFORMS, isPlatformId, PLATFORM_PROFILES } from "../services/platforms";
+import { CaptionFormat } from "../utils/captions";
+
+export type OutputFormat = "json" | "md" | CaptionFormat;
+
+export interface CliOptions {
+  inputs: string[]; // files, or directories whose videos are processed (not recursively)
+  outDir: string;
+  aspectRatio: ThumbnailAspectRatio;
+  platforms: PlatformId[];
+  formats: OutputFormat[];
+  thumbnails: number; // variants per video; 0 skips thumbnail generation
+  dryRun: boolean; // fixture responses from the mock provider: no key, no network, no cost
+  help: boolean;
+}
+
+// Bad arguments: reported with the usage text and exit code 2, before any video is touched.
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ["json", "md", "srt", "vtt", "txt"];
+const MAX_THUMBNAILS = 4;
+
+export const USAGE = `Usage: npm run cli -- [options] <video or folder>...
+
+Analyzes each video and writes project.json, brief.md, captions and thumbnails
+to <out>/<video name>/. The folder can be zipped and imported into the app.
+
+Options:
+  -o, --out <dir>           Output folder (default: vidigenius-output)
+  -a, --aspect <ratio>      Thumbnail aspect ratio: ${ASPECT_RATIOS.join(", ")} (default: 16:9)
+  -p, --platforms <list>    Comma-separated platforms: ${PLATFORM_PROFILES.map(p => p.id).join(", ")}
+                            (default: ${DEFAULT_PLATFORMS.join(",")})
+  -f, --format <list>       Comma-separated outputs: ${OUTPUT_FORMATS.join(", ")} (default: all)
+  -t, --thumbnails <n>      Thumbnail variants per video, 0 to skip (default: 1, max ${MAX_THUMBNAILS})
+      --dry-run             Use fixture responses: no API key, network or cost
+  -h, --help                Show this help
+
+Exit codes: 0 all videos done, 1 one or more videos failed, 2 invalid usage, 130 interrupted.`;
+
+const splitList = (value: string) => value.split(",").map(item => item.trim().toLowerCase()).filter(Boolean);
+
+const pickList = <T extends string>(value: string, allowed: (item: string) => item is T, what: string): T[] => {
+  const items = splitList(value);
+  const unknown = items.filter(item => !allowed(item));
+  if (unknown.length) throw new UsageError(`Unknown ${what}: ${unknown.join(", ")}.`);
+  if (!items.length) throw new UsageError(`No ${what} given.`);
+  return [...new Set(items as T[])];
+};
+
+export const parseCliArgs = (argv: string[]): CliOptions => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: "string", short: "o", default: "vidigenius-output" },
+        aspect: { type: "string", short: "a", default: "16:9" },
+        platforms: { type: "string", short: "p" },
+        format: { type: "string", short: "f" },
+        thumbnails: { type: "string", short: "t", default: "1" },
+        "dry-run": { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false }
+      }
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+  const help = values.help;
+  if (!help && positionals.length === 0) throw new UsageError("Give at least one video file or folder.");
+
+  const aspectRatio = values.aspect as ThumbnailAspectRatio;
+  if (!ASPECT_RATIOS.includes(aspectRatio)) throw new UsageError(`Unknown aspect ratio "${values.aspect}". Use ${ASPECT_RATIOS.join(", ")}.`);
+
+  const thumbnails = Number(values.thumbnails);
+  if (!Number.isInteger(thumbnails) || thumbnails < 0 || thumbnails > MAX_THUMBNAILS) {
+    throw new UsageError(`--thumbnails must be a whole number from 0 to ${MAX_THUMBNAILS}.`);
+  }
+
+  return {
+    inputs: positionals,
+    outDir: values.out,
+    aspectRatio,
+    platforms: values.platforms ? pickList(values.platforms, isPlatformId, "platform") : DEFAULT_PLATFORMS,
+    formats: values.format ? pickList(values.format, (item): item is OutputFormat => OUTPUT_FORMATS.includes(item as OutputFormat), "format") : OUTPUT_FORMATS,
+    thumbnails,
+    dryRun: values["dry-run"],
+    help
+  };
+};
@@ -0,0 +1,78 @@
+import { openAsBlob } from "node:fs";
+import { mkdir, readdir, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join } from "node:path";
+import { Project } from "../types";
+import { buildProjectFiles } from "../services/projectBundle";
+import { toFileSlug } from "../utils/download";
+import { OutputFormat, UsageError } from "./args";
+
+const VIDEO_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".m4v": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
+  ".avi": "video/x-msvideo",
+  ".mpeg": "video/mpeg",
+  ".mpg": "video/mpeg",
+  ".3gp": "video/3gpp",
+  ".flv": "video/x-flv",
+  ".wmv": "video/x-ms-wmv"
+};
+
+const videoType = (path: string) => VIDEO_TYPES[extname(path).toLowerCase()];
+
+// Files named on the command line are taken as given; folders contribute the videos directly
+// inside them, in name order so runs are repeatable.
+export const collectVideos = async (inputs: string[]): Promise<string[]> => {
+  const videos: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new UsageError(`${input} does not exist.`);
+    if (info.isDirectory()) {
+      const entries = await readdir(input, { withFileTypes: true });
+      videos.push(...entries.filter(e => e.isFile() && videoType(e.name)).map(e => join(input, e.name)).sort());
+    } else if (videoType(input)) {
+      videos.push(input);
+    } else {
+      throw new UsageError(`${input} is not a supported video (${Object.keys(VIDEO_TYPES).join(", ")}).`);
+    }
+  }
+  if (!videos.length) throw new UsageError("No videos found in the given folders.");
+  return [...new Set(videos)];
+};
+
+// A File backed by the file on disk, so the same pipeline code as the browser can read,
+// slice and upload it without loading the whole video into memory.
+export const openVideo = async (path: string): Promise<File> => {
+  const info = await stat(path);
+  const type = videoType(path);
+  const blob = await openAsBlob(path, { type });
+  return new File([blob], basename(path), { type, lastModified: info.mtimeMs });
+};
+
+const wanted = (path: string, formats: OutputFormat[]) => {
+  if (path === "project.json") return formats.includes("json");
+  if (path === "brief.md") return formats.includes("md");
+  if (path.startsWith("captions/")) return formats.includes(extname(path).slice(1) as OutputFormat);
+  return true; // thumbnails
+};
+
+// <outDir>/<video name>/, numbered when two videos in one run share a name (clip.mp4, clip.mov).
+export const outputFolder = (outDir: string, fileName: string, taken: Set<string>): string => {
+  const slug = toFileSlug(fileName);
+  let name = slug;
+  for (let n = 2; taken.has(name); n++) name = `${slug}-${n}`;
+  taken.add(name);
+  return join(outDir, name);
+};
+
+// Writes the project export layout into `dir`, keeping only the requested formats.
+export const writeProject = async (project: Project, dir: string, formats: OutputFormat[]) => {
+  for (const entry of buildProjectFiles(project)) {
+    if (!wanted(entry.path, formats)) continue;
+    const path = join(dir, entry.path);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, entry.data);
+  }
+};
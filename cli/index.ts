@@ -0,0 +1,143 @@
+import { basename } from "node:path";
+import { GeneratedThumbnail } from "../types";
+import { analyzeVideo, setProvider } from "../services/ai";
+import { errorTitle, isAbortError, toAnalysisError } from "../services/errors";
+import { buildProject, createThumbnailVariants, formatBytes, MAX_UPLOAD_SIZE, prepareVideoSource } from "../services/pipeline";
+import { styleThumbnailPrompt } from "../services/profiles";
+import { RequestOptions } from "../services/provider";
+import { CallUsage, DEFAULT_PRICES, formatCost, priceCall } from "../services/usage";
+import { hashFile } from "../utils/hash";
+import { CliOptions, parseCliArgs, USAGE, UsageError } from "./args";
+import { collectVideos, openVideo, outputFolder, writeProject } from "./files";
+
+// Headless entry point: `npm run cli -- <video or folder>`. Runs the same service layer as the app,
+// one video at a time. Progress goes to stderr; stdout gets one output folder per finished video.
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_INTERRUPTED = 130;
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const describe = (err: unknown) => {
+  const error = toAnalysisError(err);
+  return `${errorTitle(error.code)}: ${error.message}`;
+};
+
+// Runs one video end to end. Analysis outputs are written even when thumbnails fail, since the
+// analysis is already paid for; the video still counts as failed.
+const processVideo = async (path: string, dir: string, options: CliOptions, signal: AbortSignal): Promise<boolean> => {
+  const file = await openVideo(path);
+  if (file.size > MAX_UPLOAD_SIZE) throw new Error(`${formatBytes(file.size)} is over the ${formatBytes(MAX_UPLOAD_SIZE)} limit.`);
+
+  const usage: CallUsage[] = [];
+  const requestOptions: RequestOptions = {
+    signal,
+    onUsage: call => { usage.push(call); },
+    onRetry: info =>
+      log(`  retrying in ${Math.round(info.delayMs / 1000)}s (attempt ${info.attempt + 1} of ${info.maxAttempts})`)
+  };
+
+  const contentHash = await hashFile(file).catch(() => "");
+  let lastPercent = -1;
+  log(`  uploading ${formatBytes(file.size)}`);
+  const source = await prepareVideoSource(file, {
+    signal,
+    onProgress: p => {
+      const percent = Math.floor((p.bytesSent / p.totalBytes) * 10) * 10;
+      if (p.phase === "uploading" && percent !== lastPercent) {
+        lastPercent = percent;
+        log(`  uploaded ${percent}%`);
+      }
+    }
+  });
+
+  log("  analyzing");
+  const analysis = await analyzeVideo(source, { ...requestOptions, platforms: options.platforms });
+
+  let thumbnails: GeneratedThumbnail[] = [];
+  let thumbnailError: unknown;
+  if (options.thumbnails > 0) {
+    log(`  generating ${options.thumbnails} thumbnail(s) at ${options.aspectRatio}`);
+    try {
+      thumbnails = await createThumbnailVariants(styleThumbnailPrompt(analysis.thumbnailConcept.prompt), options.aspectRatio, options.thumbnails, undefined, requestOptions);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      thumbnailError = err;
+    }
+  }
+
+  await writeProject({ ...buildProject(file, contentHash, analysis), thumbnails }, dir, options.formats);
+  const cost = usage.reduce((sum, call) => sum + priceCall(call, DEFAULT_PRICES), 0);
+  log(`  wrote ${dir} (${usage.length} call(s), about ${formatCost(cost)})`);
+  process.stdout.write(`${dir}\n`);
+  if (thumbnailError) {
+    log(`  thumbnails failed. ${describe(thumbnailError)}`);
+    return false;
+  }
+  return true;
+};
+
+const main = async (): Promise<number> => {
+  let options: CliOptions;
+  let videos: string[];
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+    if (options.help) {
+      log(USAGE);
+      return 0;
+    }
+    videos = await collectVideos(options.inputs);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    log(`${err.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (options.dryRun) {
+    setProvider("mock");
+    log("Dry run: fixture responses, nothing is sent to the API.");
+  } else {
+    try {
+      process.loadEnvFile(".env.local");
+    } catch {
+      // No .env.local: the key must come from the environment.
+    }
+    if (!process.env.GEMINI_API_KEY && !process.env.API_KEY) {
+      log("GEMINI_API_KEY is not set. Add it to .env.local or the environment, or use --dry-run.");
+      return EXIT_USAGE;
+    }
+    setProvider("gemini");
+  }
+
+  // Ctrl+C cancels the current request (and its backoff wait) instead of leaving it running.
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  const taken = new Set<string>();
+  let failed = 0;
+  for (const [index, path] of videos.entries()) {
+    log(`[${index + 1}/${videos.length}] ${path}`);
+    try {
+      if (!(await processVideo(path, outputFolder(options.outDir, basename(path), taken), options, controller.signal))) failed++;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        log("Interrupted.");
+        return EXIT_INTERRUPTED;
+      }
+      failed++;
+      log(`  failed. ${describe(err)}`);
+    }
+  }
+
+  log(failed ? `${failed} of ${videos.length} video(s) failed.` : `Done: ${videos.length} video(s).`);
+  return failed ? EXIT_FAILED : 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  err => {
+    log(`Unexpected error: ${err instanceof Error ? err.stack || err.message : String(err)}`);
+    process.exitCode = EXIT_FAILED;
+  }
+);
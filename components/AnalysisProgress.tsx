@@ -0,0 +1,116 @@
+import React from 'react';
+import { RunPhase } from '../services/appMachine';
+import { formatBytes } from '../services/pipeline';
+import { RetryInfo } from '../services/retry';
+import { formatClock } from '../utils/captions';
+import { SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface AnalysisProgressProps {
+  phase: RunPhase;
+  onCancel: () => void;
+}
+
+const STEP_TITLES: Record<RunPhase['name'], string> = {
+  hashing: 'Preparing',
+  uploading: 'Uploading',
+  analyzing: 'Analyzing',
+  thumbnail: 'Generating Thumbnail'
+};
+
+const retryMessage = (retry: RetryInfo) => {
+  const reason = retry.code === 'RATE_LIMITED' ? 'Rate limited' : retry.code === 'NETWORK' ? 'Connection lost' : 'Service unavailable';
+  return `${reason}, retrying in ${Math.ceil(retry.delayMs / 1000)}s (attempt ${retry.attempt + 1} of ${retry.maxAttempts})`;
+};
+
+const stepMessage = (phase: RunPhase): string => {
+  switch (phase.name) {
+    case 'hashing':
+      return 'Fingerprinting video...';
+    case 'uploading':
+      if (!phase.progress) return 'Ingesting content...';
+      return phase.progress.phase === 'processing'
+        ? 'Upload complete. Preparing video for analysis...'
+        : `Uploading ${formatBytes(phase.progress.bytesSent)} of ${formatBytes(phase.progress.totalBytes)}...`;
+    case 'analyzing':
+      return phase.retry ? retryMessage(phase.retry) : 'PRO AI is analyzing every frame from 00:00...';
+    case 'thumbnail':
+      return phase.retry ? retryMessage(phase.retry) : 'Generating cinematic visual assets...';
+  }
+};
+
+// Spinner, step message and a cancel button for the single-file run. While the model streams,
+// the transcript, chapters and titles are shown as they arrive so a long analysis is not a blank wait.
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ phase, onCancel }) => {
+  const upload = phase.name === 'uploading' ? phase.progress : null;
+  const uploadPercent = upload ? Math.round((upload.bytesSent / upload.totalBytes) * 100) : 0;
+  const partial = phase.name === 'analyzing' ? phase.partial : {};
+  const transcript = partial.transcription?.trim();
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh]">
+      <div className="relative w-32 h-32 mb-10">
+        <div className="absolute inset-0 rounded-full border-4 border-slate-800" />
+        <div className="absolute inset-0 rounded-full border-4 border-indigo-500 border-t-transparent animate-spin" />
+        <SparklesIcon className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-10 h-10 text-white drop-shadow-[0_0_15px_rgba(99,102,241,0.5)]" />
+      </div>
+      <h2 className="text-3xl font-black mb-3 text-white uppercase tracking-widest">{STEP_TITLES[phase.name]}</h2>
+      <p className={`font-mono animate-pulse ${'retry' in phase && phase.retry ? 'text-amber-400' : 'text-indigo-400'}`}>{stepMessage(phase)}</p>
+      <p className="text-[10px] font-black text-slate-600 uppercase tracking-widest mt-2 truncate max-w-md">{phase.fileName}</p>
+
+      {upload && (
+        <div className="w-full max-w-md mt-8">
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-300"
+              style={{ width: `${uploadPercent}%` }}
+            />
+          </div>
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mt-3 text-center">
+            {uploadPercent}% uploaded
+          </p>
+        </div>
+      )}
+
+      {transcript && (
+        <div className="w-full max-w-3xl mt-10 glass rounded-2xl p-6 border-slate-800 text-left">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Live transcript</h4>
+            <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">
+              {partial.segments?.length || 0} segments{partial.chapters?.length ? ` · ${partial.chapters.length} chapters` : ''}
+            </span>
+          </div>
+          {/* Only the tail is shown; the full transcript can run to many thousands of words. */}
+          <p className="text-sm text-slate-300 leading-relaxed max-h-48 overflow-hidden whitespace-pre-wrap">
+            {transcript.length > 1200 ? `…${transcript.slice(-1200)}` : transcript}
+          </p>
+          {partial.chapters && partial.chapters.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {partial.chapters.map((chapter, idx) => (
+                <span key={idx} className="text-[10px] font-bold px-2 py-1 rounded-lg bg-slate-900/60 text-slate-400">
+                  {formatClock(chapter.start)} {chapter.title}
+                </span>
+              ))}
+            </div>
+          )}
+          {partial.titles && partial.titles.length > 0 && (
+            <ul className="mt-4 flex flex-col gap-1">
+              {partial.titles.map((title, idx) => (
+                <li key={idx} className="text-sm font-bold text-white">{title.text}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={onCancel}
+        className="mt-10 px-6 py-2.5 text-sm font-bold bg-slate-900 hover:bg-slate-800 rounded-full transition-all flex items-center gap-2 border border-slate-800 text-slate-400 hover:text-white"
+      >
+        <XMarkIcon className="w-4 h-4" />
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default AnalysisProgress;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { ChannelProfile } from '../types';
+import { deleteChannelProfile, saveChannelProfile } from '../services/profiles';
+import { Cog6ToothIcon, MegaphoneIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ChannelProfilesProps {
+  profiles: ChannelProfile[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onProfilesChange: (profiles: ChannelProfile[]) => void;
+}
+
+// Form state keeps list fields as the raw text being typed; they are split on save.
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  tone: string;
+  bannedWords: string;
+  requiredHashtags: string;
+  ctaLinks: string;
+  nicheKeywords: string;
+  thumbnailStyle: string;
+  exampleTitles: string;
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  tone: '',
+  bannedWords: '',
+  requiredHashtags: '',
+  ctaLinks: '',
+  nicheKeywords: '',
+  thumbnailStyle: '',
+  exampleTitles: ''
+};
+
+const splitList = (text: string, separator: RegExp) => text.split(separator).map(item => item.trim()).filter(Boolean);
+
+const toDraft = (profile: ChannelProfile): ProfileDraft => ({
+  id: profile.id,
+  name: profile.name,
+  tone: profile.tone,
+  bannedWords: profile.bannedWords.join(', '),
+  requiredHashtags: profile.requiredHashtags.join(' '),
+  ctaLinks: profile.ctaLinks.join('\n'),
+  nicheKeywords: profile.nicheKeywords.join(', '),
+  thumbnailStyle: profile.thumbnailStyle,
+  exampleTitles: profile.exampleTitles.join('\n')
+});
+
+// Titles and links may contain commas, so those lists are one entry per line.
+const fromDraft = (draft: ProfileDraft): Omit<ChannelProfile, 'id'> & { id?: string } => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  tone: draft.tone.trim(),
+  bannedWords: splitList(draft.bannedWords, /[,\n]/),
+  requiredHashtags: splitList(draft.requiredHashtags, /[\s,]+/),
+  ctaLinks: splitList(draft.ctaLinks, /\n/),
+  nicheKeywords: splitList(draft.nicheKeywords, /[,\n]/),
+  thumbnailStyle: draft.thumbnailStyle.trim(),
+  exampleTitles: splitList(draft.exampleTitles, /\n/)
+});
+
+const inputClass = "w-full bg-slate-950/80 px-3 py-2 rounded-xl border border-slate-800 focus:border-indigo-500 outline-none text-[11px] text-slate-300";
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="flex flex-col gap-1.5">
+    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+      {label}{hint && <span className="normal-case tracking-normal font-bold text-slate-600"> · {hint}</span>}
+    </span>
+    {children}
+  </label>
+);
+
+// Channel picker plus an inline manager for creating, editing and deleting brand voice profiles.
+const ChannelProfiles: React.FC<ChannelProfilesProps> = ({ profiles, activeId, onSelect, onProfilesChange }) => {
+  const [managing, setManaging] = useState(false);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+
+  const update = (patch: Partial<ProfileDraft>) => setDraft(current => current && { ...current, ...patch });
+
+  const save = () => {
+    if (!draft?.name.trim()) return;
+    const next = saveChannelProfile(fromDraft(draft));
+    onProfilesChange(next);
+    // A newly created profile is selected straight away; that is almost always why it was created.
+    if (!draft.id) onSelect(next[next.length - 1].id);
+    setDraft(null);
+  };
+
+  const remove = (id: string) => {
+    onProfilesChange(deleteChannelProfile(id));
+    if (id === activeId) onSelect(null);
+    if (draft?.id === id) setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <MegaphoneIcon className="w-4 h-4 text-slate-500" />
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-1">Channel</span>
+        <button
+          onClick={() => onSelect(null)}
+          className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+            !activeId ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-500 hover:text-white'
+          }`}
+        >
+          Generic
+        </button>
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => onSelect(profile.id)}
+            className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+              profile.id === activeId ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-500 hover:text-white'
+            }`}
+          >
+            {profile.name}
+          </button>
+        ))}
+        <button onClick={() => setManaging(!managing)} title="Manage channel profiles" className="p-1 text-slate-500 hover:text-white">
+          <Cog6ToothIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {managing && (
+        <div className="glass rounded-2xl p-6 border-slate-800 text-left">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-xs font-black text-white uppercase tracking-widest">Channel profiles</h4>
+            <button onClick={() => { setManaging(false); setDraft(null); }} className="text-slate-500 hover:text-white">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          {!draft && (
+            <div className="flex flex-col gap-2">
+              {profiles.length === 0 && <p className="text-[11px] text-slate-500">No profiles yet. Add one per channel to give each its own voice.</p>}
+              {profiles.map(profile => (
+                <div key={profile.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-slate-900/40 border border-slate-800">
+                  <button onClick={() => setDraft(toDraft(profile))} className="text-left min-w-0">
+                    <span className="block text-sm font-bold text-white truncate">{profile.name}</span>
+                    <span className="block text-[10px] text-slate-500 truncate">{profile.tone || 'No tone set'}</span>
+                  </button>
+                  <button onClick={() => remove(profile.id)} title="Delete profile" className="p-1 text-slate-600 hover:text-red-400">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                className="self-start mt-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5"
+              >
+                <PlusIcon className="w-3.5 h-3.5" />
+                New profile
+              </button>
+            </div>
+          )}
+
+          {draft && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field label="Name">
+                <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. Main channel" className={inputClass} />
+              </Field>
+              <Field label="Thumbnail style">
+                <input value={draft.thumbnailStyle} onChange={(e) => update({ thumbnailStyle: e.target.value })} placeholder="e.g. bright studio, bold yellow text, face on the left" className={inputClass} />
+              </Field>
+              <Field label="Tone">
+                <textarea value={draft.tone} onChange={(e) => update({ tone: e.target.value })} rows={3} placeholder="e.g. calm and practical, no hype, speaks to working editors" className={`${inputClass} resize-none`} />
+              </Field>
+              <Field label="Example past titles" hint="one per line">
+                <textarea value={draft.exampleTitles} onChange={(e) => update({ exampleTitles: e.target.value })} rows={3} className={`${inputClass} resize-none`} />
+              </Field>
+              <Field label="Banned words" hint="comma separated">
+                <input value={draft.bannedWords} onChange={(e) => update({ bannedWords: e.target.value })} placeholder="e.g. insane, shocking, you won't believe" className={inputClass} />
+              </Field>
+              <Field label="Required hashtags">
+                <input value={draft.requiredHashtags} onChange={(e) => update({ requiredHashtags: e.target.value })} placeholder="e.g. #editing #premierepro" className={inputClass} />
+              </Field>
+              <Field label="Niche keywords" hint="comma separated">
+                <input value={draft.nicheKeywords} onChange={(e) => update({ nicheKeywords: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="CTA links" hint="one per line">
+                <textarea value={draft.ctaLinks} onChange={(e) => update({ ctaLinks: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+              </Field>
+              <div className="md:col-span-2 flex items-center justify-end gap-3">
+                <button onClick={() => setDraft(null)} className="px-4 py-2 text-[10px] font-black text-slate-500 hover:text-white uppercase">Cancel</button>
+                <button
+                  onClick={save}
+                  disabled={!draft.name.trim()}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white text-[10px] font-black rounded-lg uppercase"
+                >
+                  Save profile
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelProfiles;
@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Chapter, TranscriptSegment } from '../types';
+import { checkChapters, fixChapters, MIN_CHAPTER_SECONDS, MIN_CHAPTERS, supportsChapters, transcriptDuration } from '../utils/chapters';
+import { formatClock } from '../utils/captions';
+import EditableText from './EditableText';
+import TimeInput from './TimeInput';
+import {
+  ArrowDownOnSquareIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  PaperClipIcon,
+  PlusIcon,
+  QueueListIcon,
+  TrashIcon,
+  WrenchScrewdriverIcon
+} from '@heroicons/react/24/outline';
+
+interface ChapterPanelProps {
+  chapters: Chapter[];
+  segments: TranscriptSegment[];
+  videoFile: File | null; // the uploaded video; projects opened from the library start without one
+  hasYoutubeCopy: boolean;
+  onAttachVideo: (file: File) => void;
+  onChange: (chapters: Chapter[], label: string) => void;
+  onInsert: () => void;
+}
+
+const ChapterPanel: React.FC<ChapterPanelProps> = ({ chapters, segments, videoFile, hasYoutubeCopy, onAttachVideo, onChange, onInsert }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const attachRef = useRef<HTMLInputElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    setVideoDuration(0);
+    setCurrentTime(0);
+    if (!videoFile) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  // The real length wins once the video has loaded; the transcript end is close enough until then.
+  const duration = videoDuration || transcriptDuration(segments);
+  const issues = supportsChapters(duration)
+    ? checkChapters(chapters, duration)
+    : [`YouTube chapters need a video of at least ${MIN_CHAPTERS * MIN_CHAPTER_SECONDS} seconds.`];
+  const fixed = fixChapters(chapters, duration);
+  const canFix = JSON.stringify(fixed) !== JSON.stringify(chapters);
+  const activeIdx = chapters.reduce((found, c, idx) => (c.start <= currentTime ? idx : found), -1);
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    video.play().catch(() => undefined);
+  };
+
+  const update = (idx: number, patch: Partial<Chapter>, label: string) => {
+    const next = chapters.map((c, i) => (i === idx ? { ...c, ...patch } : c));
+    onChange(patch.start !== undefined ? [...next].sort((a, b) => a.start - b.start) : next, label);
+  };
+
+  const addAtPlayhead = () => {
+    const start = Math.floor(currentTime);
+    if (chapters.some(c => c.start === start)) return;
+    onChange([...chapters, { start, title: 'New chapter' }].sort((a, b) => a.start - b.start), `Added chapter at ${formatClock(start)}`);
+  };
+
+  const handleAttach = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && file.type.startsWith('video/')) onAttachVideo(file);
+  };
+
+  return (
+    <section className="glass rounded-[2rem] p-8 border-emerald-500/10 shadow-xl">
+      <div className="flex items-center justify-between gap-3 mb-6 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-600/20 rounded-lg">
+            <QueueListIcon className="w-6 h-6 text-emerald-400" />
+          </div>
+          <h3 className="text-2xl font-black text-white uppercase italic">Chapters</h3>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          {canFix && (
+            <button
+              onClick={() => onChange(fixed, 'Auto-fixed chapters')}
+              className="px-4 py-1.5 bg-amber-600/10 text-amber-400 hover:bg-amber-600/20 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5 transition-all"
+            >
+              <WrenchScrewdriverIcon className="w-3.5 h-3.5" />
+              Auto-fix
+            </button>
+          )}
+          <button
+            onClick={onInsert}
+            disabled={chapters.length === 0 || !hasYoutubeCopy}
+            title={hasYoutubeCopy ? 'Replace the timestamp list in the YouTube description' : 'Generate YouTube copy first'}
+            className="px-4 py-1.5 bg-emerald-600/10 text-emerald-400 hover:bg-emerald-600/20 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5 transition-all disabled:opacity-40"
+          >
+            <ArrowDownOnSquareIcon className="w-3.5 h-3.5" />
+            Insert into YouTube description
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          {videoUrl ? (
+            <video
+              ref={videoRef}
+              src={videoUrl}
+              controls
+              onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration || 0)}
+              onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+              className="w-full rounded-2xl bg-black border border-slate-800"
+            />
+          ) : (
+            <div className="aspect-video rounded-2xl border border-dashed border-slate-800 flex flex-col items-center justify-center gap-3 text-center p-4">
+              <p className="text-[11px] text-slate-500">Attach the original video to preview and jump between chapters.</p>
+              <button
+                onClick={() => attachRef.current?.click()}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-[10px] font-black text-slate-300 rounded-lg uppercase flex items-center gap-1.5"
+              >
+                <PaperClipIcon className="w-3.5 h-3.5" />
+                Attach video file
+              </button>
+              <input ref={attachRef} type="file" accept="video/*" className="hidden" onChange={handleAttach} />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {chapters.length === 0 && <p className="text-[11px] text-slate-500">No chapters were detected for this video.</p>}
+          {chapters.map((chapter, idx) => (
+            <div
+              key={`${idx}-${chapter.start}`}
+              className={`flex items-start gap-3 p-3 rounded-xl border transition-all ${
+                idx === activeIdx && videoUrl ? 'bg-emerald-600/10 border-emerald-500/30' : 'bg-slate-900/40 border-slate-800'
+              }`}
+            >
+              <button
+                onClick={() => seek(chapter.start)}
+                disabled={!videoUrl}
+                title="Play from here"
+                className="mt-1 text-[10px] font-black text-slate-500 hover:text-emerald-400 disabled:hover:text-slate-500"
+              >
+                {idx + 1}
+              </button>
+              <TimeInput value={chapter.start} onCommit={(start) => update(idx, { start }, `Moved chapter "${chapter.title}"`)} />
+              <EditableText
+                value={chapter.title}
+                rows={1}
+                onCommit={(title) => update(idx, { title }, 'Renamed chapter')}
+                className="flex-1 bg-transparent text-sm font-bold text-white resize-none rounded-lg border border-transparent hover:border-slate-700 px-1"
+              />
+              <button onClick={() => onChange(chapters.filter((_, i) => i !== idx), `Removed chapter "${chapter.title}"`)} title="Remove chapter">
+                <TrashIcon className="w-4 h-4 text-slate-600 hover:text-red-400" />
+              </button>
+            </div>
+          ))}
+          {videoUrl && (
+            <button
+              onClick={addAtPlayhead}
+              className="self-start flex items-center gap-1.5 text-[10px] font-black text-slate-400 hover:text-emerald-400 uppercase"
+            >
+              <PlusIcon className="w-3.5 h-3.5" />
+              Add chapter at {formatClock(currentTime)}
+            </button>
+          )}
+
+          <div className="flex flex-col gap-1 mt-2">
+            {issues.length === 0 ? (
+              <span className="flex items-center gap-1 text-[10px] font-bold text-emerald-400">
+                <CheckCircleIcon className="w-3.5 h-3.5" />
+                Meets YouTube's chapter rules
+              </span>
+            ) : (
+              issues.map((issue, idx) => (
+                <span key={idx} className="flex items-center gap-1 text-[10px] font-bold text-amber-400">
+                  <ExclamationTriangleIcon className="w-3.5 h-3.5 shrink-0" />
+                  {issue}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ChapterPanel;
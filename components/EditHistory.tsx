@@ -0,0 +1,50 @@
+import React from 'react';
+import { HistoryEntry } from '../hooks/useHistory';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, ClockIcon } from '@heroicons/react/24/outline';
+
+interface EditHistoryProps {
+  entries: HistoryEntry<unknown>[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const EditHistory: React.FC<EditHistoryProps> = ({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }) => {
+  if (entries.length <= 1) return null;
+
+  return (
+    <div className="glass rounded-2xl p-4 border-slate-500/10 flex items-center gap-4 flex-wrap">
+      <div className="flex items-center gap-2">
+        <ClockIcon className="w-4 h-4 text-slate-500" />
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Edit History</span>
+      </div>
+      <div className="flex items-center gap-1">
+        <button onClick={onUndo} disabled={!canUndo} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30" title="Undo">
+          <ArrowUturnLeftIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30" title="Redo">
+          <ArrowUturnRightIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex items-center gap-2 overflow-x-auto custom-scrollbar flex-1">
+        {entries.map((entry, idx) => (
+          <button
+            key={`${entry.at}-${idx}`}
+            onClick={() => onJump(idx)}
+            title={new Date(entry.at).toLocaleTimeString()}
+            className={`shrink-0 px-3 py-1 rounded-lg text-[10px] font-bold transition-all ${
+              idx === index ? 'bg-indigo-600 text-white' : idx > index ? 'bg-slate-900/40 text-slate-600 line-through' : 'bg-slate-800/60 text-slate-400 hover:text-white'
+            }`}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EditHistory;
@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+
+interface EditableTextProps {
+  value: string;
+  onCommit: (value: string) => void;
+  className?: string;
+  rows?: number;
+}
+
+// Keeps a local draft while typing and commits once on blur, so one edit is one history entry.
+const EditableText: React.FC<EditableTextProps> = ({ value, onCommit, className = '', rows }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <textarea
+      value={draft}
+      rows={rows}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Escape') setDraft(value); }}
+      className={`outline-none focus:border-indigo-500 ${className}`}
+    />
+  );
+};
+
+export default EditableText;
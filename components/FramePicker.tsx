@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CandidateFrame, extractCandidateFrames } from '../utils/frames';
+import { formatClock } from '../utils/captions';
+import { ArrowPathIcon, CameraIcon, FaceSmileIcon, PaperClipIcon, PhotoIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface FramePickerProps {
+  videoFile: File | null;
+  selected: CandidateFrame | null;
+  busy: boolean; // a thumbnail is being generated; using a frame as background waits for it
+  onSelect: (frame: CandidateFrame | null) => void;
+  onUseAsBackground: (frame: CandidateFrame) => void;
+  onAttachVideo: (file: File) => void;
+}
+
+// Pulls scored stills from the uploaded video. The selected frame is sent as a reference with
+// the thumbnail prompt; any frame can also become a thumbnail directly and be finished in the editor.
+const FramePicker: React.FC<FramePickerProps> = ({ videoFile, selected, busy, onSelect, onUseAsBackground, onAttachVideo }) => {
+  const [frames, setFrames] = useState<CandidateFrame[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const attachRef = useRef<HTMLInputElement>(null);
+
+  // A different video invalidates the frames; unmounting stops any extraction still running.
+  useEffect(() => {
+    setFrames([]);
+    setError(null);
+    return () => abortRef.current?.abort();
+  }, [videoFile]);
+
+  const extract = async () => {
+    if (!videoFile || progress !== null) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const found = await extractCandidateFrames(videoFile, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(done / total)
+      });
+      setFrames(found);
+      if (found.length === 0) setError("No usable frames were found in this video.");
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error("Frame extraction failed", err);
+        setError(err instanceof Error ? err.message : "Frame extraction failed.");
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleAttach = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && file.type.startsWith('video/')) onAttachVideo(file);
+  };
+
+  return (
+    <div className="mt-10 pt-8 border-t border-slate-800/50">
+      <div className="flex items-center justify-between gap-3 mb-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <CameraIcon className="w-4 h-4 text-indigo-400" />
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Frames from your video{frames.length > 0 ? ` · ${frames.length}` : ''}</h4>
+        </div>
+        {selected && (
+          <span className="flex items-center gap-2 text-[10px] font-black text-indigo-400 uppercase tracking-widest">
+            Reference: {formatClock(selected.time)}
+            <button onClick={() => onSelect(null)} title="Generate from text only" className="text-slate-500 hover:text-white">
+              <XMarkIcon className="w-3.5 h-3.5" />
+            </button>
+          </span>
+        )}
+        {videoFile && (
+          <button
+            onClick={extract}
+            disabled={progress !== null}
+            className="px-4 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-60 text-[10px] font-black text-slate-300 rounded-lg uppercase flex items-center gap-1.5"
+          >
+            <ArrowPathIcon className={`w-3.5 h-3.5 ${progress !== null ? 'animate-spin' : ''}`} />
+            {progress !== null ? `Scanning ${Math.round(progress * 100)}%` : frames.length > 0 ? 'Scan again' : 'Find best frames'}
+          </button>
+        )}
+      </div>
+
+      {!videoFile && (
+        <div className="flex items-center justify-between gap-4 p-4 rounded-2xl border border-dashed border-slate-800">
+          <p className="text-[11px] text-slate-500">Attach the original video to pick real frames as a reference or background.</p>
+          <button
+            onClick={() => attachRef.current?.click()}
+            className="shrink-0 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-[10px] font-black text-slate-300 rounded-lg uppercase flex items-center gap-1.5"
+          >
+            <PaperClipIcon className="w-3.5 h-3.5" />
+            Attach video file
+          </button>
+          <input ref={attachRef} type="file" accept="video/*" className="hidden" onChange={handleAttach} />
+        </div>
+      )}
+
+      {error && <p className="text-[10px] font-bold text-red-400 mb-3">{error}</p>}
+
+      {frames.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {frames.map(frame => {
+            const isSelected = selected?.time === frame.time;
+            return (
+              <div
+                key={frame.time}
+                className={`group relative rounded-2xl overflow-hidden border bg-black transition-all ${
+                  isSelected ? 'border-indigo-500 ring-2 ring-indigo-500/30' : 'border-slate-800 hover:border-slate-600'
+                }`}
+              >
+                <button onClick={() => onSelect(isSelected ? null : frame)} className="block w-full" title={isSelected ? 'Stop using as reference' : 'Use as reference for generation'}>
+                  <img src={frame.url} alt="" className="w-full aspect-video object-cover" />
+                </button>
+                <div className="absolute top-2 left-2 flex gap-1">
+                  <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-slate-950/80 text-slate-300">{formatClock(frame.time)}</span>
+                  {isSelected && <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-indigo-600 text-white">Reference</span>}
+                </div>
+                <div className="p-2 bg-slate-950/90 flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-[9px] font-black uppercase text-slate-500">
+                    <span title="Overall score">{Math.round(frame.score * 100)}</span>
+                    <span title="Sharpness relative to the sharpest frame">Sharp {Math.round(frame.sharpness * 100)}%</span>
+                    {frame.faces !== null && frame.faces > 0 && (
+                      <span className="flex items-center gap-0.5" title="Faces detected">
+                        <FaceSmileIcon className="w-3 h-3" />
+                        {frame.faces}
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onUseAsBackground(frame)}
+                    disabled={busy}
+                    title="Crop this frame to the current ratio and open it in the editor"
+                    className="flex items-center gap-1 text-[10px] font-black uppercase text-slate-500 hover:text-white disabled:opacity-30"
+                  >
+                    <PhotoIcon className="w-3.5 h-3.5" />
+                    Use
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FramePicker;
@@ -0,0 +1,331 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedThumbnail, Highlight, TranscriptSegment } from '../types';
+import { exportHighlightClip } from '../services/clipExport';
+import { isAbortError, readableError } from '../services/errors';
+import { ThumbnailReference } from '../services/pipeline';
+import { formatClock } from '../utils/captions';
+import { transcriptDuration } from '../utils/chapters';
+import { canRecordClips } from '../utils/clipRecorder';
+import { downloadFile } from '../utils/download';
+import { checkHighlight, fixHighlight, formatRange, supportsHighlights } from '../utils/highlights';
+import EditableText from './EditableText';
+import TimeInput from './TimeInput';
+import {
+  ArrowDownTrayIcon,
+  ExclamationTriangleIcon,
+  FilmIcon,
+  PaperClipIcon,
+  PlayIcon,
+  ScissorsIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface HighlightClipsProps {
+  highlights: Highlight[];
+  segments: TranscriptSegment[];
+  videoFile: File | null; // the uploaded video; projects opened from the library start without one
+  projectName: string;
+  onAttachVideo: (file: File) => void;
+  onChange: (highlights: Highlight[], label: string) => void;
+  onCreateCover: (highlight: Highlight, reference: ThumbnailReference, signal: AbortSignal) => Promise<GeneratedThumbnail>;
+  onCoverExported: (cover: GeneratedThumbnail) => void;
+}
+
+interface ExportState {
+  rank: number;
+  progress: number;
+}
+
+// Ranked Shorts candidates from the analysis. The selected clip plays in a 9:16 crop exactly as it
+// will be exported; in and out points can be typed or taken from the playhead, and each clip
+// exports as a ZIP with the trimmed vertical video, its captions, a 9:16 cover and the upload copy.
+const HighlightClips: React.FC<HighlightClipsProps> = ({ highlights, segments, videoFile, projectName, onAttachVideo, onChange, onCreateCover, onCoverExported }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const attachRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [selectedRank, setSelectedRank] = useState(1);
+  const [playingClip, setPlayingClip] = useState(false);
+  const [exporting, setExporting] = useState<ExportState | null>(null);
+  const [notice, setNotice] = useState<{ rank: number; message: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    setVideoDuration(0);
+    setCurrentTime(0);
+    setPlayingClip(false);
+    if (!videoFile) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  // Unmounting (a new project, another video) stops a recording still in progress.
+  useEffect(() => () => abortRef.current?.abort(), [videoFile]);
+
+  const duration = videoDuration || transcriptDuration(segments);
+  const selected = highlights.find(h => h.rank === selectedRank) || highlights[0];
+  const issues = selected ? checkHighlight(selected, videoDuration) : [];
+  const recordable = canRecordClips();
+
+  const seek = (seconds: number, play: boolean) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    if (play) video.play().catch(() => undefined);
+  };
+
+  const select = (highlight: Highlight) => {
+    setSelectedRank(highlight.rank);
+    setPlayingClip(false);
+    videoRef.current?.pause();
+    seek(highlight.start, false);
+  };
+
+  const playClip = () => {
+    if (!selected) return;
+    setPlayingClip(true);
+    seek(selected.start, true);
+  };
+
+  // While previewing a clip, playback stops at its out point.
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const time = e.currentTarget.currentTime;
+    setCurrentTime(time);
+    if (playingClip && selected && time >= selected.end) {
+      e.currentTarget.pause();
+      setPlayingClip(false);
+    }
+  };
+
+  const update = (highlight: Highlight, patch: Partial<Highlight>, label: string) => {
+    const fixed = patch.start !== undefined || patch.end !== undefined ? fixHighlight({ ...highlight, ...patch }, videoDuration) : { ...highlight, ...patch };
+    onChange(highlights.map(h => (h.rank === highlight.rank ? fixed : h)), label);
+  };
+
+  const exportClip = async (highlight: Highlight) => {
+    if (!videoFile || exporting) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setNotice(null);
+    setExporting({ rank: highlight.rank, progress: 0 });
+    try {
+      const result = await exportHighlightClip(videoFile, highlight, segments, projectName, {
+        signal: controller.signal,
+        onProgress: (progress) => setExporting({ rank: highlight.rank, progress }),
+        createCover: onCreateCover
+      });
+      downloadFile(result.zip, result.fileName);
+      if (result.cover) onCoverExported(result.cover);
+      if (result.coverError) setNotice({ rank: highlight.rank, message: `Exported without a cover: ${result.coverError}`, error: true });
+      else setNotice({ rank: highlight.rank, message: 'Exported. The cover was also added to the thumbnail gallery.', error: false });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Clip export failed", err);
+        setNotice({ rank: highlight.rank, message: readableError(err), error: true });
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setExporting(null);
+    }
+  };
+
+  const handleAttach = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && file.type.startsWith('video/')) onAttachVideo(file);
+  };
+
+  return (
+    <section className="glass rounded-[2rem] p-8 border-rose-500/10 shadow-xl">
+      <div className="flex items-center justify-between gap-3 mb-6 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-rose-600/20 rounded-lg">
+            <ScissorsIcon className="w-6 h-6 text-rose-400" />
+          </div>
+          <h3 className="text-2xl font-black text-white uppercase italic">Shorts Highlights</h3>
+        </div>
+        {!recordable && (
+          <span className="flex items-center gap-1 text-[10px] font-bold text-amber-400">
+            <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+            This browser cannot record clips. Use a recent Chrome, Edge or Safari to export.
+          </span>
+        )}
+      </div>
+
+      {highlights.length === 0 ? (
+        <p className="text-[11px] text-slate-500">
+          {supportsHighlights(duration)
+            ? 'No highlights were found for this video. Analyze it again to look for Shorts moments.'
+            : 'This video is already short enough to post as a Short.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,18rem)_1fr] gap-8">
+          <div className="flex flex-col gap-4">
+            {videoUrl ? (
+              <video
+                ref={videoRef}
+                src={videoUrl}
+                playsInline
+                controls
+                onLoadedMetadata={(e) => {
+                  setVideoDuration(e.currentTarget.duration || 0);
+                  if (selected) e.currentTarget.currentTime = selected.start;
+                }}
+                onTimeUpdate={handleTimeUpdate}
+                onPause={() => setPlayingClip(false)}
+                className="w-full aspect-[9/16] object-cover rounded-2xl bg-black border border-slate-800"
+              />
+            ) : (
+              <div className="aspect-[9/16] rounded-2xl border border-dashed border-slate-800 flex flex-col items-center justify-center gap-3 text-center p-4">
+                <p className="text-[11px] text-slate-500">Attach the original video to preview, trim and export clips.</p>
+                <button
+                  onClick={() => attachRef.current?.click()}
+                  className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-[10px] font-black text-slate-300 rounded-lg uppercase flex items-center gap-1.5"
+                >
+                  <PaperClipIcon className="w-3.5 h-3.5" />
+                  Attach video file
+                </button>
+                <input ref={attachRef} type="file" accept="video/*" className="hidden" onChange={handleAttach} />
+              </div>
+            )}
+
+            {selected && (
+              <div className="flex flex-col gap-3 p-4 rounded-2xl bg-slate-900/40 border border-slate-800">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[10px] font-black text-slate-500 uppercase">Clip #{selected.rank}</span>
+                  <span className="text-[10px] font-mono text-slate-400">{Math.round(selected.end - selected.start)}s</span>
+                </div>
+                {duration > 0 && (
+                  <div className="relative h-1.5 rounded-full bg-slate-800">
+                    <div
+                      className="absolute h-full rounded-full bg-rose-500/70"
+                      style={{ left: `${(selected.start / duration) * 100}%`, width: `${((selected.end - selected.start) / duration) * 100}%` }}
+                    />
+                    {videoUrl && <div className="absolute -top-1 w-0.5 h-3.5 bg-white" style={{ left: `${Math.min(100, (currentTime / duration) * 100)}%` }} />}
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase">
+                    In
+                    <TimeInput value={selected.start} onCommit={(start) => update(selected, { start }, `Moved the in point of clip #${selected.rank}`)} />
+                  </label>
+                  <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase">
+                    Out
+                    <TimeInput value={selected.end} onCommit={(end) => update(selected, { end }, `Moved the out point of clip #${selected.rank}`)} />
+                  </label>
+                </div>
+                {videoUrl && (
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <button
+                      onClick={() => update(selected, { start: Math.round(currentTime * 10) / 10 }, `Moved the in point of clip #${selected.rank}`)}
+                      className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-[10px] font-black text-slate-300 rounded-lg uppercase"
+                    >
+                      In at {formatClock(currentTime)}
+                    </button>
+                    <button
+                      onClick={() => update(selected, { end: Math.round(currentTime * 10) / 10 }, `Moved the out point of clip #${selected.rank}`)}
+                      className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-[10px] font-black text-slate-300 rounded-lg uppercase"
+                    >
+                      Out at {formatClock(currentTime)}
+                    </button>
+                    <button
+                      onClick={playClip}
+                      className="px-3 py-1.5 bg-rose-600/10 text-rose-400 hover:bg-rose-600/20 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5"
+                    >
+                      <PlayIcon className="w-3.5 h-3.5" />
+                      Play clip
+                    </button>
+                  </div>
+                )}
+                {issues.map((issue, idx) => (
+                  <span key={idx} className="flex items-center gap-1 text-[10px] font-bold text-amber-400">
+                    <ExclamationTriangleIcon className="w-3.5 h-3.5 shrink-0" />
+                    {issue}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-3">
+            {highlights.map(highlight => {
+              const active = highlight.rank === selected?.rank;
+              const busy = exporting?.rank === highlight.rank;
+              return (
+                <div
+                  key={highlight.rank}
+                  className={`flex flex-col gap-2 p-4 rounded-xl border transition-all ${
+                    active ? 'bg-rose-600/10 border-rose-500/30' : 'bg-slate-900/40 border-slate-800'
+                  }`}
+                >
+                  <div className="flex items-start gap-3">
+                    <button
+                      onClick={() => select(highlight)}
+                      title="Preview this clip"
+                      className="mt-1 flex items-center gap-1 text-[10px] font-black text-slate-500 hover:text-rose-400"
+                    >
+                      <FilmIcon className="w-4 h-4" />
+                      #{highlight.rank}
+                    </button>
+                    <EditableText
+                      value={highlight.title}
+                      rows={1}
+                      onCommit={(title) => update(highlight, { title }, `Renamed clip #${highlight.rank}`)}
+                      className="flex-1 bg-transparent text-sm font-bold text-white resize-none rounded-lg border border-transparent hover:border-slate-700 px-1"
+                    />
+                    <button
+                      onClick={() => select(highlight)}
+                      className="text-[10px] font-mono text-emerald-400 whitespace-nowrap mt-1"
+                    >
+                      {formatRange(highlight)}
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-300 italic">"{highlight.hook}"</p>
+                  {highlight.reason && <p className="text-[11px] text-slate-500">{highlight.reason}</p>}
+                  <div className="flex items-center gap-3 flex-wrap">
+                    {busy ? (
+                      <>
+                        <div className="flex-1 min-w-[8rem] h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                          <div className="h-full bg-rose-500 transition-all" style={{ width: `${Math.round(exporting.progress * 100)}%` }} />
+                        </div>
+                        <span className="text-[10px] font-bold text-slate-400">Recording {Math.round(exporting.progress * 100)}%</span>
+                        <button
+                          onClick={() => abortRef.current?.abort()}
+                          className="text-[10px] font-black text-slate-400 hover:text-red-400 uppercase flex items-center gap-1"
+                        >
+                          <XMarkIcon className="w-3.5 h-3.5" />
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => exportClip(highlight)}
+                        disabled={!videoFile || !recordable || !!exporting}
+                        title={videoFile ? 'Record the vertical clip and download it with captions, cover and copy' : 'Attach the original video first'}
+                        className="px-4 py-1.5 bg-rose-600/10 text-rose-400 hover:bg-rose-600/20 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5 transition-all disabled:opacity-40"
+                      >
+                        <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+                        Export 9:16 clip
+                      </button>
+                    )}
+                    {notice?.rank === highlight.rank && (
+                      <span className={`text-[10px] font-bold ${notice.error ? 'text-amber-400' : 'text-emerald-400'}`}>{notice.message}</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-[10px] text-slate-600">Clips record in real time; keep this tab visible until the export finishes.</p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HighlightClips;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { AnalysisJob, JobStatus, Project } from '../types';
+import { formatBytes } from '../services/pipeline';
+import {
+  QueueListIcon,
+  ArrowPathIcon,
+  XMarkIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  PlusIcon,
+  ArchiveBoxIcon
+} from '@heroicons/react/24/outline';
+
+interface JobDashboardProps {
+  jobs: AnalysisJob[];
+  concurrency: number;
+  onConcurrencyChange: (limit: number) => void;
+  onAddFiles: () => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onOpen: (project: Project) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-slate-800 text-slate-400',
+  uploading: 'bg-sky-500/20 text-sky-300',
+  analyzing: 'bg-indigo-500/20 text-indigo-300',
+  thumbnail: 'bg-purple-500/20 text-purple-300',
+  done: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300'
+};
+
+const isActive = (status: JobStatus) => status === 'uploading' || status === 'analyzing' || status === 'thumbnail';
+
+const JobDashboard: React.FC<JobDashboardProps> = ({
+  jobs, concurrency, onConcurrencyChange, onAddFiles, onRetry, onCancel, onRemove, onClearFinished, onOpen
+}) => {
+  const counts = jobs.reduce((acc, job) => ({ ...acc, [job.status]: (acc[job.status] || 0) + 1 }), {} as Partial<Record<JobStatus, number>>);
+
+  return (
+    <section className="glass rounded-[2rem] p-8 border-indigo-500/10 shadow-xl mb-32">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-600/20 rounded-lg">
+            <QueueListIcon className="w-6 h-6 text-indigo-400" />
+          </div>
+          <h3 className="text-2xl font-black text-white uppercase italic">Batch Queue</h3>
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            {counts.done || 0}/{jobs.length} done{counts.failed ? ` · ${counts.failed} failed` : ''}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+            Parallel
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-300"
+            >
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button onClick={onClearFinished} className="px-4 py-1.5 bg-slate-800/60 text-slate-300 text-[10px] font-black rounded-lg hover:bg-slate-700 transition-all flex items-center gap-1.5 uppercase">
+            <ArchiveBoxIcon className="w-3.5 h-3.5" />
+            Clear Done
+          </button>
+          <button onClick={onAddFiles} className="px-4 py-1.5 bg-indigo-600/20 text-indigo-300 text-[10px] font-black rounded-lg hover:bg-indigo-600/30 transition-all flex items-center gap-1.5 uppercase">
+            <PlusIcon className="w-3.5 h-3.5" />
+            Add Videos
+          </button>
+        </div>
+      </div>
+
+      {jobs.length === 0 && (
+        <p className="text-slate-500 text-sm text-center py-16">The queue is empty. Drop several videos on the upload zone to batch them.</p>
+      )}
+
+      <div className="space-y-3">
+        {jobs.map(job => (
+          <div
+            key={job.id}
+            onClick={() => job.project && onOpen(job.project)}
+            className={`p-4 rounded-2xl border bg-slate-900/40 border-slate-800 transition-all ${job.project ? 'cursor-pointer hover:border-indigo-500/40' : ''}`}
+          >
+            <div className="flex items-center gap-4">
+              <div className="shrink-0">
+                {job.status === 'done' && <CheckCircleIcon className="w-6 h-6 text-emerald-400" />}
+                {job.status === 'failed' && <ExclamationCircleIcon className="w-6 h-6 text-red-400" />}
+                {isActive(job.status) && <ArrowPathIcon className="w-6 h-6 text-indigo-400 animate-spin" />}
+                {job.status === 'queued' && <QueueListIcon className="w-6 h-6 text-slate-600" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-white truncate">{job.file.name}</p>
+                <p className="text-[10px] text-slate-500 truncate">
+                  {formatBytes(job.file.size)} · {job.status === 'failed' ? job.error : job.message}
+                  {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                </p>
+              </div>
+              <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+                {job.cached ? 'cached' : job.status}
+              </span>
+              {job.status === 'failed' && (
+                <button onClick={(e) => { e.stopPropagation(); onRetry(job.id); }} className="p-1 text-slate-400 hover:text-white" title="Retry">
+                  <ArrowPathIcon className="w-4 h-4" />
+                </button>
+              )}
+              {isActive(job.status) ? (
+                <button onClick={(e) => { e.stopPropagation(); onCancel(job.id); }} className="p-1 text-slate-500 hover:text-red-400" title="Cancel">
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              ) : (
+                <button onClick={(e) => { e.stopPropagation(); onRemove(job.id); }} className="p-1 text-slate-500 hover:text-red-400" title="Remove">
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            {isActive(job.status) && (
+              <div className="h-1 bg-slate-800 rounded-full overflow-hidden mt-3">
+                <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default JobDashboard;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { checkCopy, countChars, CopyLimits, trimToLimits } from '../services/platforms';
+import { ExclamationTriangleIcon, ScissorsIcon } from '@heroicons/react/24/outline';
+
+interface LimitStatusProps {
+  text: string;
+  limits: CopyLimits;
+  onTrim?: (trimmed: string) => void;
+}
+
+// Character counter plus any limit warnings for one piece of copy. Hard-limit errors offer a trim.
+const LimitStatus: React.FC<LimitStatusProps> = ({ text, limits, onTrim }) => {
+  const issues = checkCopy(text, limits);
+  const chars = countChars(text);
+  const hasError = issues.some(i => i.level === 'error');
+
+  return (
+    <div className="flex items-start justify-between gap-3 mt-2">
+      <div className="flex flex-col gap-1 min-w-0">
+        {issues.map((issue, idx) => (
+          <span key={idx} className={`flex items-center gap-1 text-[10px] font-bold ${issue.level === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+            <ExclamationTriangleIcon className="w-3.5 h-3.5 shrink-0" />
+            {issue.message}
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {hasError && onTrim && (
+          <button onClick={() => onTrim(trimToLimits(text, limits))} className="flex items-center gap-1 text-[10px] font-black text-red-400 hover:text-white uppercase">
+            <ScissorsIcon className="w-3.5 h-3.5" />
+            Trim
+          </button>
+        )}
+        <span className={`text-[10px] font-mono ${chars > limits.maxChars ? 'text-red-400' : 'text-slate-500'}`}>{chars}/{limits.maxChars}</span>
+      </div>
+    </div>
+  );
+};
+
+export default LimitStatus;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { LOCALES, localeLabel } from '../utils/locales';
+import { ArrowDownTrayIcon, ArrowPathIcon, LanguageIcon } from '@heroicons/react/24/outline';
+
+interface LocaleSwitcherProps {
+  available: string[]; // locales that already have a stored variant
+  active: string | null; // null = source-language result
+  busy: string | null;
+  error: string | null;
+  onSelect: (locale: string | null) => void;
+  onLocalize: (locale: string) => void;
+  onDownloadCopy: () => void;
+}
+
+const LocaleSwitcher: React.FC<LocaleSwitcherProps> = ({ available, active, busy, error, onSelect, onLocalize, onDownloadCopy }) => {
+  const missing = LOCALES.filter(l => !available.includes(l.code));
+  const [target, setTarget] = useState('');
+  const selected = missing.some(l => l.code === target) ? target : missing[0]?.code || '';
+
+  const tab = (locale: string | null, label: string) => (
+    <button
+      key={locale || 'original'}
+      onClick={() => onSelect(locale)}
+      className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+        active === locale ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-400 hover:text-white'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="glass rounded-2xl p-4 border-indigo-500/10 flex items-center gap-4 flex-wrap">
+      <div className="flex items-center gap-2">
+        <LanguageIcon className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Language</span>
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        {tab(null, 'Original')}
+        {available.map(code => tab(code, localeLabel(code)))}
+      </div>
+      <div className="flex items-center gap-2 ml-auto">
+        {error && <span className="text-[10px] font-bold text-red-400 max-w-[14rem] truncate" title={error}>{error}</span>}
+        {missing.length > 0 && (
+          <>
+            <select
+              value={selected}
+              onChange={(e) => setTarget(e.target.value)}
+              disabled={!!busy}
+              className="bg-slate-950/60 rounded-lg px-3 py-1.5 text-[11px] text-slate-300 border border-slate-800 outline-none"
+            >
+              {missing.map(l => <option key={l.code} value={l.code}>{l.label} · {l.nativeName}</option>)}
+            </select>
+            <button
+              onClick={() => onLocalize(selected)}
+              disabled={!!busy || !selected}
+              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5"
+            >
+              {busy ? <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" /> : <LanguageIcon className="w-3.5 h-3.5" />}
+              {busy ? `Localizing ${localeLabel(busy)}` : 'Localize'}
+            </button>
+          </>
+        )}
+        <button onClick={onDownloadCopy} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Download copy for this language">
+          <ArrowDownTrayIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LocaleSwitcher;
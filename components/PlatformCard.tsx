@@ -0,0 +1,92 @@
+import React from 'react';
+import { ChannelProfile, PlatformId } from '../types';
+import { PlatformProfile } from '../services/platforms';
+import EditableText from './EditableText';
+import LimitStatus from './LimitStatus';
+import ProfileStatus from './ProfileStatus';
+import RegenerateControl from './RegenerateControl';
+import {
+  AtSymbolIcon,
+  BriefcaseIcon,
+  DevicePhoneMobileIcon,
+  GlobeAltIcon,
+  MusicalNoteIcon,
+  PlayCircleIcon,
+  SparklesIcon,
+  UserGroupIcon
+} from '@heroicons/react/24/outline';
+
+interface PlatformCardProps {
+  platform: PlatformProfile;
+  text?: string; // undefined until copy has been generated for this platform
+  profile?: ChannelProfile; // channel whose banned words and required hashtags the copy is checked against
+  busy: boolean;
+  error?: string;
+  onCommit: (text: string, label: string) => void;
+  onRegenerate: (guidance: string) => void;
+  onCopy: (text: string) => void;
+}
+
+// Tailwind needs literal class names, so accents are spelled out per platform.
+const ACCENTS: Record<PlatformId, { border: string; badge: string; text: string; button: string; icon: React.ElementType }> = {
+  youtube: { border: 'border-red-500/10', badge: 'bg-red-600/20', text: 'text-red-400', button: 'bg-red-600/10 text-red-400 hover:bg-red-600/20', icon: GlobeAltIcon },
+  shorts: { border: 'border-rose-500/10', badge: 'bg-rose-600/20', text: 'text-rose-400', button: 'bg-rose-600/10 text-rose-400 hover:bg-rose-600/20', icon: PlayCircleIcon },
+  instagram: { border: 'border-pink-500/10', badge: 'bg-pink-600/20', text: 'text-pink-400', button: 'bg-pink-600/10 text-pink-400 hover:bg-pink-600/20', icon: DevicePhoneMobileIcon },
+  tiktok: { border: 'border-cyan-500/10', badge: 'bg-cyan-600/20', text: 'text-cyan-400', button: 'bg-cyan-600/10 text-cyan-400 hover:bg-cyan-600/20', icon: MusicalNoteIcon },
+  x: { border: 'border-slate-400/10', badge: 'bg-slate-600/20', text: 'text-slate-300', button: 'bg-slate-600/10 text-slate-300 hover:bg-slate-600/20', icon: AtSymbolIcon },
+  linkedin: { border: 'border-sky-500/10', badge: 'bg-sky-600/20', text: 'text-sky-400', button: 'bg-sky-600/10 text-sky-400 hover:bg-sky-600/20', icon: BriefcaseIcon },
+  facebook: { border: 'border-blue-500/10', badge: 'bg-blue-600/20', text: 'text-blue-400', button: 'bg-blue-600/10 text-blue-400 hover:bg-blue-600/20', icon: UserGroupIcon }
+};
+
+const PlatformCard: React.FC<PlatformCardProps> = ({ platform, text, profile, busy, error, onCommit, onRegenerate, onCopy }) => {
+  const accent = ACCENTS[platform.id];
+  const Icon = accent.icon;
+
+  return (
+    <div className={`glass rounded-[2rem] p-8 ${accent.border} shadow-xl flex flex-col`}>
+      <div className="flex items-center justify-between gap-3 mb-6 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 ${accent.badge} rounded-lg`}>
+            <Icon className={`w-6 h-6 ${accent.text}`} />
+          </div>
+          <div>
+            <h3 className="text-xl font-black text-white uppercase italic leading-none">{platform.label}</h3>
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{platform.fieldLabel}</span>
+          </div>
+        </div>
+        {text !== undefined && (
+          <div className="flex items-center gap-2">
+            <RegenerateControl busy={busy} error={error} onRegenerate={onRegenerate} />
+            <button onClick={() => onCopy(text)} className={`px-4 py-1.5 ${accent.button} text-[10px] font-black rounded-lg transition-all`}>COPY</button>
+          </div>
+        )}
+      </div>
+      {text !== undefined ? (
+        <>
+          <EditableText
+            value={text}
+            onCommit={(next) => onCommit(next, 'Edited')}
+            className="w-full h-48 bg-slate-950/50 rounded-xl p-4 text-[11px] text-slate-400 border border-slate-800 resize-none custom-scrollbar"
+          />
+          <LimitStatus text={text} limits={platform.limits} onTrim={(trimmed) => onCommit(trimmed, 'Trimmed')} />
+          {profile && <ProfileStatus text={text} profile={profile} busy={busy} onFix={onCommit} onRewrite={onRegenerate} />}
+        </>
+      ) : (
+        <div className="h-48 rounded-xl border border-dashed border-slate-800 flex flex-col items-center justify-center gap-3 text-center p-4">
+          <p className="text-[11px] text-slate-500">No {platform.label} copy yet. It is written from the existing transcript.</p>
+          {error && <p className="text-[10px] font-bold text-red-400">{error}</p>}
+          <button
+            onClick={() => onRegenerate('')}
+            disabled={busy}
+            className={`px-4 py-2 ${accent.button} text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5 disabled:opacity-50`}
+          >
+            <SparklesIcon className={`w-3.5 h-3.5 ${busy ? 'animate-spin' : ''}`} />
+            {busy ? 'Writing...' : `Generate ${platform.fieldLabel}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlatformCard;
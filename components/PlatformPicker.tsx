@@ -0,0 +1,40 @@
+import React from 'react';
+import { PlatformId } from '../types';
+import { PLATFORM_PROFILES } from '../services/platforms';
+import { Squares2X2Icon } from '@heroicons/react/24/outline';
+
+interface PlatformPickerProps {
+  enabled: PlatformId[];
+  onChange: (enabled: PlatformId[]) => void;
+}
+
+// Which platforms get copy. At least one stays enabled.
+const PlatformPicker: React.FC<PlatformPickerProps> = ({ enabled, onChange }) => {
+  const toggle = (id: PlatformId) => {
+    if (enabled.includes(id)) {
+      if (enabled.length > 1) onChange(enabled.filter(p => p !== id));
+    } else {
+      onChange([...enabled, id]);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <Squares2X2Icon className="w-4 h-4 text-slate-500" />
+      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mr-1">Platforms</span>
+      {PLATFORM_PROFILES.map(platform => (
+        <button
+          key={platform.id}
+          onClick={() => toggle(platform.id)}
+          className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+            enabled.includes(platform.id) ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-500 hover:text-white'
+          }`}
+        >
+          {platform.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default PlatformPicker;
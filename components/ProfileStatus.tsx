@@ -0,0 +1,56 @@
+import React from 'react';
+import { ChannelProfile } from '../types';
+import { addRequiredHashtags, bannedWordsGuidance, checkProfileCopy, findBannedWords, removeBannedWords } from '../services/profiles';
+import { ExclamationTriangleIcon, HashtagIcon, SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ProfileStatusProps {
+  text: string;
+  profile: ChannelProfile;
+  requireHashtags?: boolean;
+  busy?: boolean;
+  onFix: (fixed: string, label: string) => void;
+  onRewrite?: (guidance: string) => void;
+}
+
+// Banned-word and required-hashtag checks for one piece of copy, with quick fixes. Renders nothing when clean.
+const ProfileStatus: React.FC<ProfileStatusProps> = ({ text, profile, requireHashtags = true, busy, onFix, onRewrite }) => {
+  const issues = checkProfileCopy(text, profile, requireHashtags);
+  if (issues.length === 0) return null;
+  const banned = findBannedWords(text, profile);
+  const missingHashtags = issues.some(i => i.level === 'warning');
+
+  return (
+    <div className="flex items-start justify-between gap-3 mt-2">
+      <div className="flex flex-col gap-1 min-w-0">
+        {issues.map((issue, idx) => (
+          <span key={idx} className={`flex items-center gap-1 text-[10px] font-bold ${issue.level === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+            <ExclamationTriangleIcon className="w-3.5 h-3.5 shrink-0" />
+            {issue.message}
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        {missingHashtags && (
+          <button onClick={() => onFix(addRequiredHashtags(text, profile), 'Added required hashtags to')} className="flex items-center gap-1 text-[10px] font-black text-amber-400 hover:text-white uppercase">
+            <HashtagIcon className="w-3.5 h-3.5" />
+            Add
+          </button>
+        )}
+        {banned.length > 0 && (
+          <button onClick={() => onFix(removeBannedWords(text, profile), 'Removed banned words from')} className="flex items-center gap-1 text-[10px] font-black text-red-400 hover:text-white uppercase">
+            <XMarkIcon className="w-3.5 h-3.5" />
+            Remove
+          </button>
+        )}
+        {banned.length > 0 && onRewrite && (
+          <button onClick={() => onRewrite(bannedWordsGuidance(banned))} disabled={busy} className="flex items-center gap-1 text-[10px] font-black text-red-400 hover:text-white uppercase disabled:opacity-40">
+            <SparklesIcon className={`w-3.5 h-3.5 ${busy ? 'animate-spin' : ''}`} />
+            Rewrite
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileStatus;
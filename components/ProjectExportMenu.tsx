@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+import { buildProjectJson, buildProjectZip } from '../services/projectBundle';
+import { buildMarkdownBrief } from '../utils/brief';
+import { downloadFile, toFileSlug } from '../utils/download';
+import { ArchiveBoxArrowDownIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+
+interface ProjectExportMenuProps {
+  project: Project;
+}
+
+const ProjectExportMenu: React.FC<ProjectExportMenuProps> = ({ project }) => {
+  const [open, setOpen] = useState(false);
+  const slug = toFileSlug(project.name);
+
+  const exportAs = (format: 'zip' | 'json' | 'md') => {
+    setOpen(false);
+    if (format === 'zip') downloadFile(buildProjectZip(project), `${slug}.zip`);
+    else if (format === 'json') downloadFile(buildProjectJson(project), `${slug}.json`, "application/json");
+    else downloadFile(buildMarkdownBrief(project), `${slug}-brief.md`, "text/markdown");
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={() => exportAs('zip')}
+        className="pl-5 pr-3 py-2.5 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white rounded-l-full transition-all flex items-center gap-2"
+        title="Analysis JSON, Markdown brief, captions and all thumbnails in one ZIP"
+      >
+        <ArchiveBoxArrowDownIcon className="w-4 h-4" />
+        Export
+      </button>
+      <button onClick={() => setOpen(o => !o)} className="pl-2 pr-3 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-r-full border-l border-indigo-400/40">
+        <ChevronDownIcon className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-56 glass rounded-2xl border border-slate-800 p-2 z-20 flex flex-col">
+          {([['zip', 'Full bundle (.zip)'], ['json', 'Project data (.json)'], ['md', 'Markdown brief (.md)']] as const).map(([format, label]) => (
+            <button key={format} onClick={() => exportAs(format)} className="text-left px-3 py-2 rounded-xl text-xs font-bold text-slate-300 hover:bg-slate-800 hover:text-white">
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectExportMenu;
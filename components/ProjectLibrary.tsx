@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Project } from '../types';
+import { deleteProject, listProjects, renameProject, searchProjects } from '../services/library';
+import { importProjectFile } from '../services/projectBundle';
+import {
+  ArrowUpTrayIcon,
+  FolderOpenIcon,
+  MagnifyingGlassIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  CheckIcon,
+  XMarkIcon,
+  PhotoIcon
+} from '@heroicons/react/24/outline';
+
+interface ProjectLibraryProps {
+  onOpen: (project: Project) => void;
+}
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (err: any) {
+      console.error("Library Error:", err);
+      setError("Could not open the local project library. Storage may be disabled in this browser.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const visible = useMemo(() => searchProjects(projects, query), [projects, query]);
+
+  const startRename = (project: Project) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    await renameProject(editingId, draftName);
+    setEditingId(null);
+    refresh();
+  };
+
+  const remove = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}" from the library? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    refresh();
+  };
+
+  // Accepts the ZIP bundle or the standalone JSON from "Export project", then opens the restored project.
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      onOpen(await importProjectFile(file));
+    } catch (err: any) {
+      console.error("Import Error:", err);
+      setError(err?.message || "Could not import this project file.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <section className="glass rounded-[2rem] p-8 border-indigo-500/10 shadow-xl pb-32">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-600/20 rounded-lg">
+            <FolderOpenIcon className="w-6 h-6 text-indigo-400" />
+          </div>
+          <h3 className="text-2xl font-black text-white uppercase italic">Project Library</h3>
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{projects.length} saved</span>
+        </div>
+        <div className="flex items-center gap-3 w-full md:w-auto">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+            className="px-4 py-2 bg-slate-800/60 text-slate-300 text-[10px] font-black rounded-xl hover:bg-indigo-600/20 hover:text-indigo-300 transition-all flex items-center gap-1.5 uppercase shrink-0 disabled:opacity-50"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" />
+            {importing ? 'Importing...' : 'Import'}
+          </button>
+          <input ref={importInputRef} type="file" accept=".zip,.json,application/zip,application/json" onChange={importFile} className="hidden" />
+          <div className="relative w-full md:w-72">
+            <MagnifyingGlassIcon className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search name, file, title, keyword"
+              className="w-full bg-slate-950/50 rounded-xl pl-9 pr-4 py-2 text-xs text-slate-300 border border-slate-800 focus:border-indigo-500 outline-none"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 text-sm font-mono mb-6">{error}</p>}
+      {!loading && !error && visible.length === 0 && (
+        <p className="text-slate-500 text-sm text-center py-16">
+          {projects.length === 0 ? 'No saved projects yet. Completed analyses are saved here automatically.' : 'No projects match your search.'}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {visible.map(project => {
+          const cover = project.thumbnails[project.thumbnails.length - 1];
+          return (
+            <div key={project.id} className="flex gap-4 p-4 rounded-2xl border bg-slate-900/40 border-slate-800 hover:border-slate-700 transition-all">
+              <button onClick={() => onOpen(project)} className="w-24 h-24 shrink-0 rounded-xl overflow-hidden bg-black border border-slate-800 flex items-center justify-center">
+                {cover ? <img src={cover.url} alt="" className="w-full h-full object-cover" /> : <PhotoIcon className="w-8 h-8 text-slate-700" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                {editingId === project.id ? (
+                  <div className="flex items-center gap-2 mb-1">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                      className="flex-1 min-w-0 bg-slate-950/50 rounded-lg px-2 py-1 text-sm text-white border border-indigo-500 outline-none"
+                    />
+                    <button onClick={commitRename} className="p-1 text-emerald-400 hover:text-emerald-300"><CheckIcon className="w-4 h-4" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:text-white"><XMarkIcon className="w-4 h-4" /></button>
+                  </div>
+                ) : (
+                  <button onClick={() => onOpen(project)} className="block text-left w-full">
+                    <p className="text-sm font-black text-white uppercase italic truncate">{project.name}</p>
+                  </button>
+                )}
+                <p className="text-[10px] text-slate-500 truncate">{project.fileName}</p>
+                <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">{new Date(project.createdAt).toLocaleString()}</p>
+                <div className="flex items-center gap-2 mt-3">
+                  <button onClick={() => onOpen(project)} className="px-3 py-1 bg-indigo-600/10 text-indigo-400 text-[10px] font-black rounded-lg hover:bg-indigo-600/20 transition-all uppercase">Open</button>
+                  <button onClick={() => startRename(project)} className="p-1 text-slate-500 hover:text-white transition-colors"><PencilSquareIcon className="w-4 h-4" /></button>
+                  <button onClick={() => remove(project)} className="p-1 text-slate-500 hover:text-red-400 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { formatCost, formatTokens, sumUsage, UsageRecord } from '../services/usage';
+import { BanknotesIcon } from '@heroicons/react/24/outline';
+
+interface ProjectUsageProps {
+  records: UsageRecord[]; // this project's calls only
+  onShowDashboard: () => void;
+}
+
+// What this project has cost so far: the first analysis plus every regeneration, localization and thumbnail since.
+const ProjectUsage: React.FC<ProjectUsageProps> = ({ records, onShowDashboard }) => {
+  if (records.length === 0) return null;
+  const totals = sumUsage(records);
+
+  return (
+    <div className="flex items-center justify-between gap-4 flex-wrap px-6 py-3 rounded-2xl bg-slate-900/40 border border-slate-800">
+      <div className="flex items-center gap-3 flex-wrap">
+        <BanknotesIcon className="w-4 h-4 text-slate-500" />
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Project cost</span>
+        <span className="text-sm font-black text-white">{formatCost(totals.cost)}</span>
+        <span className="text-[10px] font-bold text-slate-500">
+          {totals.calls} calls · {formatTokens(totals.inputTokens)} in / {formatTokens(totals.outputTokens)} out{totals.images ? ` · ${totals.images} images` : ''}
+        </span>
+      </div>
+      <button onClick={onShowDashboard} className="text-[10px] font-black text-slate-500 hover:text-white uppercase">Usage dashboard</button>
+    </div>
+  );
+};
+
+export default ProjectUsage;
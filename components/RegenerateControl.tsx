@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface RegenerateControlProps {
+  busy: boolean;
+  error?: string;
+  placeholder?: string;
+  onRegenerate: (guidance: string) => void;
+}
+
+// Compact "regenerate with guidance" control shown in a section header.
+const RegenerateControl: React.FC<RegenerateControlProps> = ({ busy, error, placeholder = 'Optional guidance, e.g. "shorter, add CTA"', onRegenerate }) => {
+  const [open, setOpen] = useState(false);
+  const [guidance, setGuidance] = useState('');
+
+  const submit = () => {
+    onRegenerate(guidance);
+    setOpen(false);
+  };
+
+  if (busy) {
+    return (
+      <span className="px-3 py-1.5 text-[10px] font-black text-indigo-300 uppercase flex items-center gap-1.5">
+        <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />
+        Regenerating
+      </span>
+    );
+  }
+
+  if (!open) {
+    return (
+      <div className="flex items-center gap-2">
+        {error && <span className="text-[10px] font-bold text-red-400 max-w-[12rem] truncate" title={error}>{error}</span>}
+        <button onClick={() => setOpen(true)} className="px-3 py-1.5 bg-slate-800/60 text-slate-300 text-[10px] font-black rounded-lg hover:bg-indigo-600/20 hover:text-indigo-300 transition-all flex items-center gap-1.5 uppercase">
+          <ArrowPathIcon className="w-3.5 h-3.5" />
+          Regenerate
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        autoFocus
+        value={guidance}
+        onChange={(e) => setGuidance(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') submit(); if (e.key === 'Escape') setOpen(false); }}
+        placeholder={placeholder}
+        className="w-56 bg-slate-950/60 rounded-lg px-3 py-1.5 text-[11px] text-slate-300 border border-slate-800 focus:border-indigo-500 outline-none"
+      />
+      <button onClick={submit} className="px-3 py-1.5 bg-indigo-600 text-white text-[10px] font-black rounded-lg uppercase">Go</button>
+      <button onClick={() => setOpen(false)} className="text-[10px] font-black text-slate-500 hover:text-white uppercase">Cancel</button>
+    </div>
+  );
+};
+
+export default RegenerateControl;
@@ -0,0 +1,385 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrandPreset, EditorLayer, ImageLayer, TextLayer, ThumbnailAspectRatio } from '../types';
+import { deleteBrandPreset, loadBrandPresets, saveBrandPreset } from '../services/brandPresets';
+import { createProjectId } from '../services/library';
+import {
+  EXPORT_TARGETS,
+  ExportFormat,
+  exportComposition,
+  layerBounds,
+  loadImage,
+  renderComposition,
+  SAFE_ZONES
+} from '../utils/thumbnailCanvas';
+import { downloadFile } from '../utils/download';
+import {
+  PencilSquareIcon,
+  XMarkIcon,
+  PlusIcon,
+  PhotoIcon,
+  TrashIcon,
+  ArrowDownTrayIcon,
+  BookmarkIcon,
+  Squares2X2Icon
+} from '@heroicons/react/24/outline';
+
+interface ThumbnailEditorProps {
+  imageUrl: string;
+  aspectRatio: ThumbnailAspectRatio;
+  headline: string;
+  onClose: () => void;
+  onSave?: (dataUrl: string, aspectRatio: ThumbnailAspectRatio) => void;
+}
+
+const FONTS = ['Inter', 'Impact', 'Arial Black', 'Georgia', 'Trebuchet MS', 'Courier New'];
+
+const DEFAULT_TEXT_STYLE: BrandPreset['text'] = {
+  fontFamily: 'Impact',
+  fontSize: 0.12,
+  fontWeight: 900,
+  color: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 0.12,
+  shadowColor: 'rgba(0,0,0,0.8)',
+  shadowBlur: 24,
+  uppercase: true
+};
+
+const createTextLayer = (text: string, style: BrandPreset['text'] = DEFAULT_TEXT_STYLE): TextLayer => ({
+  id: createProjectId(),
+  kind: 'text',
+  text,
+  x: 0.5,
+  y: 0.3,
+  ...style
+});
+
+const textStyleOf = ({ id, kind, text, x, y, ...style }: TextLayer): BrandPreset['text'] => style;
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error("Failed to read image."));
+  reader.readAsDataURL(file);
+});
+
+const blobToDataUrl = (blob: Blob) => readFileAsDataUrl(blob as File);
+
+const ThumbnailEditor: React.FC<ThumbnailEditorProps> = ({ imageUrl, aspectRatio, headline, onClose, onSave }) => {
+  const targets = EXPORT_TARGETS.filter(t => t.aspectRatio === aspectRatio);
+  const [targetId, setTargetId] = useState(targets[0]?.id || EXPORT_TARGETS[0].id);
+  const [layers, setLayers] = useState<EditorLayer[]>(() => [createTextLayer(headline)]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showGuides, setShowGuides] = useState(true);
+  const [format, setFormat] = useState<ExportFormat>('jpeg');
+  const [presets, setPresets] = useState<BrandPreset[]>(() => loadBrandPresets());
+  const [presetName, setPresetName] = useState('');
+  const [status, setStatus] = useState<string>('');
+  const [base, setBase] = useState<HTMLImageElement | null>(null);
+  const [imagesVersion, setImagesVersion] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  const dragRef = useRef<{ id: string; dx: number; dy: number } | null>(null);
+
+  const target = EXPORT_TARGETS.find(t => t.id === targetId) || EXPORT_TARGETS[0];
+  const selected = layers.find(l => l.id === selectedId) || null;
+
+  useEffect(() => {
+    loadImage(imageUrl).then(setBase).catch(() => setStatus('Could not load the generated thumbnail.'));
+  }, [imageUrl]);
+
+  // Decode every image layer once and keep it for both preview and export.
+  useEffect(() => {
+    const pending = layers.filter((l): l is ImageLayer => l.kind === 'image' && !imagesRef.current.has(l.src));
+    pending.forEach(layer => loadImage(layer.src).then(img => {
+      imagesRef.current.set(layer.src, img);
+      setImagesVersion(v => v + 1);
+    }).catch(() => setStatus('Could not load logo image.')));
+  }, [layers]);
+
+  // Preview draws the composition plus guides and the selection box, which never reach the export.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = target.width;
+    canvas.height = target.height;
+    renderComposition(canvas, base, layers, imagesRef.current);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    if (showGuides) {
+      ctx.save();
+      ctx.setLineDash([16, 12]);
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = 'rgba(250, 204, 21, 0.9)';
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.15)';
+      ctx.font = `700 ${Math.round(target.height / 40)}px Inter`;
+      // Text layers leave centred alignment on the context; labels sit inside each zone's corner.
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      for (const zone of SAFE_ZONES[target.aspectRatio]) {
+        const x = zone.x * target.width, y = zone.y * target.height;
+        const w = zone.width * target.width, h = zone.height * target.height;
+        ctx.fillRect(x, y, w, h);
+        ctx.strokeRect(x, y, w, h);
+        ctx.fillStyle = 'rgba(250, 204, 21, 0.9)';
+        ctx.fillText(zone.label, x + 12, y + 12);
+        ctx.fillStyle = 'rgba(250, 204, 21, 0.15)';
+      }
+      ctx.restore();
+    }
+
+    if (selected) {
+      const b = layerBounds(ctx, selected, target.width, target.height, imagesRef.current);
+      ctx.save();
+      ctx.setLineDash([10, 8]);
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = '#818cf8';
+      ctx.strokeRect(b.left - 8, b.top - 8, b.width + 16, b.height + 16);
+      ctx.restore();
+    }
+  }, [base, layers, selected, showGuides, target, imagesVersion]);
+
+  const updateLayer = (id: string, patch: Partial<TextLayer> | Partial<ImageLayer>) => {
+    setLayers(prev => prev.map(l => l.id === id ? ({ ...l, ...patch } as EditorLayer) : l));
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * target.width,
+      y: ((e.clientY - rect.top) / rect.height) * target.height
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const point = toCanvasPoint(e);
+    // Topmost layer wins, so search from the end of the stack.
+    const hit = [...layers].reverse().find(layer => {
+      const b = layerBounds(ctx, layer, target.width, target.height, imagesRef.current);
+      return point.x >= b.left && point.x <= b.left + b.width && point.y >= b.top && point.y <= b.top + b.height;
+    });
+    setSelectedId(hit?.id || null);
+    if (hit) {
+      dragRef.current = { id: hit.id, dx: point.x / target.width - hit.x, dy: point.y / target.height - hit.y };
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toCanvasPoint(e);
+    updateLayer(drag.id, {
+      x: Math.min(1, Math.max(0, point.x / target.width - drag.dx)),
+      y: Math.min(1, Math.max(0, point.y / target.height - drag.dy))
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const addText = () => {
+    const current = layers.find((l): l is TextLayer => l.kind === 'text');
+    const layer = { ...createTextLayer('NEW TEXT', current ? textStyleOf(current) : DEFAULT_TEXT_STYLE), y: 0.6 };
+    setLayers(prev => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const addLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const src = await readFileAsDataUrl(file);
+    const layer: ImageLayer = { id: createProjectId(), kind: 'image', src, x: 0.88, y: 0.12, width: 0.15, opacity: 1 };
+    setLayers(prev => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const removeSelected = () => {
+    if (!selectedId) return;
+    setLayers(prev => prev.filter(l => l.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const savePreset = () => {
+    const text = selected?.kind === 'text' ? selected : layers.find((l): l is TextLayer => l.kind === 'text');
+    const logo = layers.find((l): l is ImageLayer => l.kind === 'image');
+    setPresets(saveBrandPreset({
+      name: presetName.trim() || `Preset ${presets.length + 1}`,
+      text: text ? textStyleOf(text) : DEFAULT_TEXT_STYLE,
+      logo: logo ? { src: logo.src, x: logo.x, y: logo.y, width: logo.width, opacity: logo.opacity } : undefined
+    }));
+    setPresetName('');
+  };
+
+  const applyPreset = (preset: BrandPreset) => {
+    setLayers(prev => {
+      const restyled = prev
+        .filter(l => l.kind === 'text')
+        .map(l => ({ ...l, ...preset.text }) as TextLayer);
+      const logo: ImageLayer[] = preset.logo ? [{ id: createProjectId(), kind: 'image', ...preset.logo }] : prev.filter((l): l is ImageLayer => l.kind === 'image');
+      return [...restyled, ...logo];
+    });
+  };
+
+  const runExport = async (mode: 'download' | 'save') => {
+    setStatus('Rendering...');
+    try {
+      const result = await exportComposition(target, format, base, layers, imagesRef.current);
+      const sizeLabel = `${(result.blob.size / 1024).toFixed(0)} KB`;
+      const note = result.format !== format ? ' (PNG was over the size limit, exported as JPEG)' : '';
+      if (mode === 'download') {
+        downloadFile(result.blob, `VidiGenius-${target.id}-${target.width}x${target.height}.${result.format === 'png' ? 'png' : 'jpg'}`);
+      } else {
+        onSave?.(await blobToDataUrl(result.blob), target.aspectRatio);
+      }
+      setStatus(result.withinLimit
+        ? `${target.width}×${target.height} ${result.format.toUpperCase()} · ${sizeLabel}${note}`
+        : `Warning: ${sizeLabel} is over the ${target.label} limit of ${(target.maxBytes / (1024 * 1024)).toFixed(0)} MB even at the lowest quality.`);
+    } catch (err: any) {
+      console.error("Export failed", err);
+      setStatus(err.message || 'Export failed.');
+    }
+  };
+
+  const inputClass = "w-full bg-slate-950/50 rounded-lg px-3 py-1.5 text-xs text-slate-300 border border-slate-800 focus:border-indigo-500 outline-none";
+  const labelClass = "text-[10px] font-black text-slate-500 uppercase tracking-widest";
+
+  return (
+    <div className="p-6 bg-slate-900/60 rounded-[2rem] border border-indigo-500/20">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <PencilSquareIcon className="w-5 h-5 text-indigo-400" />
+          <span className="text-sm font-black text-white uppercase italic">Thumbnail Editor</span>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-xs text-slate-300">
+            {targets.map(t => <option key={t.id} value={t.id}>{t.label} · {t.width}×{t.height}</option>)}
+          </select>
+          <button onClick={() => setShowGuides(g => !g)} className={`px-3 py-1.5 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5 transition-all ${showGuides ? 'bg-amber-500/20 text-amber-300' : 'bg-slate-800/60 text-slate-400'}`}>
+            <Squares2X2Icon className="w-3.5 h-3.5" />
+            Safe Zones
+          </button>
+          <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6 items-start">
+        <div className={`shrink-0 rounded-2xl overflow-hidden border border-slate-800 bg-black ${aspectRatio === '16:9' ? 'w-full lg:max-w-xl' : 'w-full max-w-[300px] mx-auto'}`}>
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="w-full h-auto cursor-move touch-none"
+          />
+        </div>
+
+        <div className="flex-1 w-full space-y-5">
+          <div className="flex items-center gap-2 flex-wrap">
+            <button onClick={addText} className="px-3 py-1.5 bg-indigo-600/20 text-indigo-300 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5"><PlusIcon className="w-3.5 h-3.5" />Text</button>
+            <button onClick={() => logoInputRef.current?.click()} className="px-3 py-1.5 bg-indigo-600/20 text-indigo-300 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5"><PhotoIcon className="w-3.5 h-3.5" />Logo</button>
+            {selected && <button onClick={removeSelected} className="px-3 py-1.5 bg-red-600/10 text-red-400 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5"><TrashIcon className="w-3.5 h-3.5" />Delete Layer</button>}
+            <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={addLogo} />
+          </div>
+
+          {!selected && <p className="text-[11px] text-slate-500">Click a layer on the canvas to edit it. Drag to move.</p>}
+
+          {selected?.kind === 'text' && (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="col-span-2 space-y-1">
+                <span className={labelClass}>Headline</span>
+                <textarea value={selected.text} onChange={(e) => updateLayer(selected.id, { text: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+              </label>
+              <label className="space-y-1">
+                <span className={labelClass}>Font</span>
+                <select value={selected.fontFamily} onChange={(e) => updateLayer(selected.id, { fontFamily: e.target.value })} className={inputClass}>
+                  {FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className={labelClass}>Size</span>
+                <input type="range" min={0.03} max={0.3} step={0.005} value={selected.fontSize} onChange={(e) => updateLayer(selected.id, { fontSize: Number(e.target.value) })} className="w-full" />
+              </label>
+              <label className="space-y-1">
+                <span className={labelClass}>Fill</span>
+                <input type="color" value={selected.color} onChange={(e) => updateLayer(selected.id, { color: e.target.value })} className="w-full h-8 bg-transparent" />
+              </label>
+              <label className="space-y-1">
+                <span className={labelClass}>Stroke</span>
+                <input type="color" value={selected.strokeColor} onChange={(e) => updateLayer(selected.id, { strokeColor: e.target.value })} className="w-full h-8 bg-transparent" />
+              </label>
+              <label className="space-y-1">
+                <span className={labelClass}>Stroke Width</span>
+                <input type="range" min={0} max={0.3} step={0.01} value={selected.strokeWidth} onChange={(e) => updateLayer(selected.id, { strokeWidth: Number(e.target.value) })} className="w-full" />
+              </label>
+              <label className="space-y-1">
+                <span className={labelClass}>Shadow Blur</span>
+                <input type="range" min={0} max={80} step={1} value={selected.shadowBlur} onChange={(e) => updateLayer(selected.id, { shadowBlur: Number(e.target.value) })} className="w-full" />
+              </label>
+              <label className="flex items-center gap-2 col-span-2">
+                <input type="checkbox" checked={selected.uppercase} onChange={(e) => updateLayer(selected.id, { uppercase: e.target.checked })} />
+                <span className={labelClass}>All Caps</span>
+              </label>
+            </div>
+          )}
+
+          {selected?.kind === 'image' && (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className={labelClass}>Width</span>
+                <input type="range" min={0.03} max={0.6} step={0.01} value={selected.width} onChange={(e) => updateLayer(selected.id, { width: Number(e.target.value) })} className="w-full" />
+              </label>
+              <label className="space-y-1">
+                <span className={labelClass}>Opacity</span>
+                <input type="range" min={0.1} max={1} step={0.05} value={selected.opacity} onChange={(e) => updateLayer(selected.id, { opacity: Number(e.target.value) })} className="w-full" />
+              </label>
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-slate-800/50 space-y-3">
+            <span className={labelClass}>Brand Presets</span>
+            <div className="flex flex-wrap gap-2">
+              {presets.map(preset => (
+                <span key={preset.id} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-slate-950/60 rounded-lg border border-slate-800">
+                  <button onClick={() => applyPreset(preset)} className="text-[11px] text-slate-300 hover:text-white">{preset.name}</button>
+                  <button onClick={() => setPresets(deleteBrandPreset(preset.id))} className="p-0.5 text-slate-600 hover:text-red-400"><XMarkIcon className="w-3 h-3" /></button>
+                </span>
+              ))}
+              {presets.length === 0 && <span className="text-[11px] text-slate-600">No presets yet.</span>}
+            </div>
+            <div className="flex gap-2">
+              <input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className={inputClass} />
+              <button onClick={savePreset} className="px-3 py-1.5 bg-slate-800 text-slate-300 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5 shrink-0"><BookmarkIcon className="w-3.5 h-3.5" />Save</button>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-800/50 space-y-3">
+            <div className="flex items-center gap-2 flex-wrap">
+              <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300">
+                <option value="jpeg">JPEG</option>
+                <option value="png">PNG</option>
+              </select>
+              <button onClick={() => runExport('download')} className="px-4 py-1.5 bg-white text-slate-950 text-[10px] font-black rounded-lg uppercase flex items-center gap-1.5 hover:bg-indigo-400 hover:text-white transition-all">
+                <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+                Export {target.width}×{target.height}
+              </button>
+              {onSave && (
+                <button onClick={() => runExport('save')} className="px-4 py-1.5 bg-indigo-600/20 text-indigo-300 text-[10px] font-black rounded-lg uppercase">Save to Project</button>
+              )}
+            </div>
+            {status && <p className="text-[11px] text-slate-400 font-mono">{status}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThumbnailEditor;
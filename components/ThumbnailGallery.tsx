@@ -0,0 +1,74 @@
+import React from 'react';
+import { GeneratedThumbnail } from '../types';
+import { formatClock } from '../utils/captions';
+import { downloadFile } from '../utils/download';
+import { ArrowDownTrayIcon, CheckBadgeIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface ThumbnailGalleryProps {
+  thumbnails: GeneratedThumbnail[];
+  activeId: string | null;
+  onSelect: (thumb: GeneratedThumbnail) => void;
+  onTogglePick: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// YouTube's "Test & Compare" accepts up to three thumbnails per video.
+export const MAX_AB_PICKS = 3;
+
+const fileExtension = (url: string) => url.startsWith('data:image/svg') ? 'svg' : url.startsWith('data:image/jpeg') ? 'jpg' : 'png';
+
+const ThumbnailGallery: React.FC<ThumbnailGalleryProps> = ({ thumbnails, activeId, onSelect, onTogglePick, onDelete }) => {
+  if (thumbnails.length === 0) return null;
+  const pickedCount = thumbnails.filter(t => t.picked).length;
+
+  return (
+    <div className="mt-10 pt-8 border-t border-slate-800/50">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Candidate Gallery · {thumbnails.length}</h4>
+        <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">{pickedCount}/{MAX_AB_PICKS} picked for A/B test</span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[...thumbnails].reverse().map(thumb => (
+          <div
+            key={thumb.id}
+            className={`group relative rounded-2xl overflow-hidden border bg-black transition-all ${
+              thumb.id === activeId ? 'border-indigo-500 ring-2 ring-indigo-500/30' : 'border-slate-800 hover:border-slate-600'
+            }`}
+          >
+            <button onClick={() => onSelect(thumb)} className="block w-full" title={thumb.prompt}>
+              <img src={thumb.url} alt="" className="w-full aspect-square object-contain bg-slate-950" />
+            </button>
+            <div className="absolute top-2 left-2 flex gap-1">
+              <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-slate-950/80 text-slate-300">{thumb.aspectRatio}</span>
+              {thumb.frameTime !== undefined && <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-slate-950/80 text-emerald-400">Frame {formatClock(thumb.frameTime)}</span>}
+              {thumb.picked && <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-indigo-600 text-white">A/B</span>}
+            </div>
+            <div className="p-2 bg-slate-950/90">
+              <p className="text-[10px] text-slate-500 truncate mb-2" title={thumb.prompt}>{thumb.prompt}</p>
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => onTogglePick(thumb.id)}
+                  disabled={!thumb.picked && pickedCount >= MAX_AB_PICKS}
+                  className={`flex items-center gap-1 text-[10px] font-black uppercase disabled:opacity-30 ${thumb.picked ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`}
+                >
+                  <CheckBadgeIcon className="w-3.5 h-3.5" />
+                  {thumb.picked ? 'Picked' : 'Pick'}
+                </button>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => downloadFile(thumb.url, `VidiGenius-Thumbnail-${thumb.aspectRatio.replace(':', 'x')}-${thumb.id.slice(0, 6)}.${fileExtension(thumb.url)}`)} className="p-1 text-slate-500 hover:text-white">
+                    <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onDelete(thumb.id)} className="p-1 text-slate-500 hover:text-red-400">
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ThumbnailGallery;
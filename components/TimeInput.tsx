@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { formatClock } from '../utils/captions';
+import { parseClock } from '../utils/chapters';
+
+interface TimeInputProps {
+  value: number; // seconds
+  onCommit: (seconds: number) => void;
+}
+
+// Same draft-and-commit-on-blur behaviour as EditableText, for a timestamp.
+const TimeInput: React.FC<TimeInputProps> = ({ value, onCommit }) => {
+  const [draft, setDraft] = useState(formatClock(value));
+
+  useEffect(() => setDraft(formatClock(value)), [value]);
+
+  const commit = () => {
+    const seconds = parseClock(draft);
+    if (seconds === null) setDraft(formatClock(value));
+    else if (seconds !== value) onCommit(seconds);
+  };
+
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(formatClock(value));
+      }}
+      className="w-16 bg-slate-950/50 rounded-lg px-2 py-1 text-[11px] font-mono text-emerald-400 border border-slate-800 outline-none focus:border-indigo-500"
+    />
+  );
+};
+
+export default TimeInput;
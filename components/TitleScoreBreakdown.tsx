@@ -0,0 +1,28 @@
+import React from 'react';
+import { TitleScore } from '../utils/titleScore';
+
+interface TitleScoreBreakdownProps {
+  score: TitleScore;
+}
+
+const barColor = (value: number) => value >= 0.75 ? 'bg-emerald-500' : value >= 0.4 ? 'bg-amber-500' : 'bg-red-500';
+
+// One row per factor: how well the title did, what was measured, and how many points it adds to the total.
+const TitleScoreBreakdown: React.FC<TitleScoreBreakdownProps> = ({ score }) => (
+  <div className="flex flex-col gap-2 mt-3 p-3 rounded-xl bg-slate-950/60 border border-slate-800">
+    {score.factors.map(factor => (
+      <div key={factor.id} className="grid grid-cols-[7.5rem_3rem_minmax(0,1fr)_2.5rem] items-center gap-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-wide truncate">{factor.label}</span>
+        <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div className={`h-full ${barColor(factor.score)}`} style={{ width: `${Math.round(factor.score * 100)}%` }} />
+        </div>
+        <span className="text-[10px] text-slate-500 truncate" title={factor.detail}>{factor.detail}</span>
+        <span className="text-[10px] font-mono text-slate-400 text-right" title={`${Math.round(factor.weight * 100)}% of the score`}>
+          +{Math.round(factor.score * factor.weight * 100)}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default TitleScoreBreakdown;
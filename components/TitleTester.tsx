@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { CopyLimits } from '../services/platforms';
+import { scoreTitle } from '../utils/titleScore';
+import TitleScoreBreakdown from './TitleScoreBreakdown';
+import LimitStatus from './LimitStatus';
+import { BeakerIcon } from '@heroicons/react/24/outline';
+
+interface TitleTesterProps {
+  keywords: string[];
+  limits?: CopyLimits;
+  candidates: string[]; // the generated titles, checked for overlap
+}
+
+// Scores a title typed in by hand on the same factors as the generated ones (without a model rank).
+const TitleTester: React.FC<TitleTesterProps> = ({ keywords, limits, candidates }) => {
+  const [text, setText] = useState('');
+  const score = text.trim() ? scoreTitle(text.trim(), { keywords, limits, others: candidates }) : null;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-800/50">
+      <div className="flex items-center gap-2 mb-3">
+        <BeakerIcon className="w-4 h-4 text-indigo-400" />
+        <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Test your own title</h4>
+        {score && (
+          <span className="ml-auto text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded bg-slate-800 text-white">
+            Score {score.total}
+          </span>
+        )}
+      </div>
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Type a title to score it against the same rules"
+        className="w-full bg-slate-950/80 px-4 py-3 rounded-xl border border-slate-800 focus:border-indigo-500 outline-none text-sm text-white"
+      />
+      {score && limits && <LimitStatus text={text.trim()} limits={limits} />}
+      {score && <TitleScoreBreakdown score={score} />}
+    </div>
+  );
+};
+
+export default TitleTester;
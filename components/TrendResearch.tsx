@@ -0,0 +1,74 @@
+import React from 'react';
+import { VideoAnalysis } from '../types';
+import { ArrowTrendingUpIcon, LinkIcon, ExclamationTriangleIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+
+interface TrendResearchProps {
+  analysis: VideoAnalysis;
+}
+
+const TrendResearch: React.FC<TrendResearchProps> = ({ analysis }) => {
+  const support = analysis.keywordSupport || analysis.trendingKeywords.map(keyword => ({ keyword, sources: [] as number[] }));
+  const groundedCount = support.filter(k => k.sources.length > 0).length;
+
+  return (
+    <section className="glass rounded-[2rem] p-8 border-emerald-500/10 shadow-xl">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-600/20 rounded-lg">
+            <ArrowTrendingUpIcon className="w-6 h-6 text-emerald-400" />
+          </div>
+          <h3 className="text-2xl font-black text-white uppercase italic">Trend Research</h3>
+        </div>
+        <span className="text-[10px] font-black text-emerald-400 uppercase tracking-widest px-3 py-1 bg-emerald-500/10 rounded-full border border-emerald-500/20">
+          {groundedCount}/{support.length} keywords grounded · {analysis.sources.length} sources
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {support.map(({ keyword, sources }) => (
+          <div key={keyword} className="p-4 rounded-2xl border bg-slate-900/40 border-slate-800">
+            <div className="flex items-center gap-2 mb-2">
+              <p className="text-sm font-black text-white">{keyword}</p>
+              {sources.length === 0 && (
+                <span className="flex items-center gap-1 text-[10px] font-black text-amber-400 uppercase tracking-widest px-2 py-0.5 bg-amber-500/10 rounded">
+                  <ExclamationTriangleIcon className="w-3 h-3" />
+                  Not grounded
+                </span>
+              )}
+            </div>
+            {sources.length > 0 ? (
+              <ul className="space-y-1">
+                {sources.map(idx => analysis.sources[idx]).filter(Boolean).map(source => (
+                  <li key={source.uri}>
+                    <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-[11px] text-indigo-400 hover:text-indigo-300 flex items-center gap-1.5 truncate">
+                      <LinkIcon className="w-3 h-3 shrink-0" />
+                      <span className="truncate">{source.title}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-[11px] text-slate-500">No search result supported this keyword. Treat it as a model suggestion.</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {analysis.searchQueries && analysis.searchQueries.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-slate-800/50">
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+            <MagnifyingGlassIcon className="w-3 h-3" />
+            Searches Performed
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {analysis.searchQueries.map(query => (
+              <span key={query} className="text-[10px] text-slate-400 px-2 py-1 bg-slate-950/60 rounded-lg border border-slate-800">{query}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TrendResearch;
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import {
+  BudgetMode,
+  DEFAULT_PRICES,
+  formatCost,
+  formatTokens,
+  loadBudget,
+  loadPriceTable,
+  monthKey,
+  PriceTable,
+  recordsInMonth,
+  saveBudget,
+  savePriceTable,
+  sumUsage,
+  usageLedger,
+  UsageOperation,
+  UsageRecord
+} from '../services/usage';
+import { BanknotesIcon, ChartBarIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+}
+
+const OPERATION_LABELS: Record<UsageOperation, string> = {
+  analysis: 'Analysis',
+  repair: 'Section repair',
+  regenerate: 'Regenerate',
+  localize: 'Localize',
+  thumbnail: 'Thumbnail'
+};
+
+const HISTORY_MONTHS = 6;
+
+const inputClass = "w-full bg-slate-950/80 px-3 py-2 rounded-xl border border-slate-800 focus:border-indigo-500 outline-none text-[11px] text-slate-300";
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-4 rounded-2xl bg-slate-900/40 border border-slate-800">
+    <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">{label}</p>
+    <p className="text-xl font-black text-white">{value}</p>
+  </div>
+);
+
+const groupBy = <K extends string>(records: UsageRecord[], key: (record: UsageRecord) => K) =>
+  records.reduce((groups, record) => {
+    const k = key(record);
+    (groups[k] ||= []).push(record);
+    return groups;
+  }, {} as Record<K, UsageRecord[]>);
+
+const lastMonths = (count: number) => {
+  const now = new Date();
+  return Array.from({ length: count }, (_, i) => monthKey(new Date(now.getFullYear(), now.getMonth() - (count - 1 - i), 1).getTime()));
+};
+
+// Spend this month against the budget, where it went, and the budget and price settings.
+// Costs are estimates from the price table, not an invoice.
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records }) => {
+  const [budget, setBudget] = useState(loadBudget);
+  const [limitText, setLimitText] = useState(budget.monthlyLimit === null ? '' : String(budget.monthlyLimit));
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+
+  const month = recordsInMonth(records);
+  const totals = sumUsage(month);
+  const limit = budget.monthlyLimit;
+  const used = limit ? Math.min(1, totals.cost / limit) : 0;
+
+  const byOperation = Object.entries(groupBy(month, r => r.operation)) as [UsageOperation, UsageRecord[]][];
+  const byProject = Object.values(groupBy(month, r => r.projectId || r.label || 'unassigned'))
+    .map(group => ({ label: group[group.length - 1].label || 'Unassigned', totals: sumUsage(group) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost)
+    .slice(0, 10);
+  const byMonth = groupBy(records, r => monthKey(r.at));
+  const history = lastMonths(HISTORY_MONTHS).map(key => ({ key, cost: sumUsage(byMonth[key] || []).cost }));
+  const maxMonth = Math.max(...history.map(h => h.cost), limit || 0, 0.0001);
+
+  // Models seen in the ledger get a row too, so a provider without a default price can be priced.
+  const models = Array.from(new Set([...Object.keys(prices), ...records.map(r => r.model)]));
+
+  const changeBudget = (mode: BudgetMode = budget.mode) => {
+    const parsed = parseFloat(limitText);
+    const next = { monthlyLimit: Number.isFinite(parsed) && parsed > 0 ? parsed : null, mode };
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const changePrice = (model: string, field: keyof PriceTable[string], value: string) => {
+    const current = prices[model] || { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+    const next = { ...prices, [model]: { ...current, [field]: Math.max(0, parseFloat(value) || 0) } };
+    setPrices(next);
+    savePriceTable(next);
+  };
+
+  const resetPrices = () => {
+    setPrices({ ...DEFAULT_PRICES });
+    savePriceTable({});
+  };
+
+  return (
+    <section className="glass rounded-[2rem] p-8 border-indigo-500/10 shadow-xl mb-32 flex flex-col gap-10">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-600/20 rounded-lg">
+            <BanknotesIcon className="w-6 h-6 text-indigo-400" />
+          </div>
+          <h3 className="text-2xl font-black text-white uppercase italic">Usage & Budget</h3>
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Estimated from the price table</span>
+        </div>
+        {records.length > 0 && (
+          <button onClick={() => usageLedger.clear()} className="px-4 py-2 text-[10px] font-black text-slate-500 hover:text-red-400 uppercase flex items-center gap-1.5">
+            <TrashIcon className="w-3.5 h-3.5" />
+            Clear history
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Stat label="This month" value={formatCost(totals.cost)} />
+        <Stat label="Calls" value={String(totals.calls)} />
+        <Stat label="Input tokens" value={formatTokens(totals.inputTokens)} />
+        <Stat label="Output tokens" value={formatTokens(totals.outputTokens)} />
+        <Stat label="Images" value={String(totals.images)} />
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">Monthly budget</h4>
+        {limit !== null && (
+          <div className="mb-4">
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-300 ${used >= 1 ? 'bg-red-500' : used >= 0.8 ? 'bg-amber-500' : 'bg-gradient-to-r from-indigo-500 to-purple-500'}`}
+                style={{ width: `${Math.round(used * 100)}%` }}
+              />
+            </div>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mt-2">
+              {formatCost(totals.cost)} of {formatCost(limit)} · {formatCost(Math.max(0, limit - totals.cost))} left
+            </p>
+          </div>
+        )}
+        <div className="flex items-end gap-3 flex-wrap">
+          <label className="flex flex-col gap-1.5 w-40">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Limit (USD)</span>
+            <input
+              value={limitText}
+              onChange={(e) => setLimitText(e.target.value)}
+              onBlur={() => changeBudget()}
+              inputMode="decimal"
+              placeholder="No budget"
+              className={inputClass}
+            />
+          </label>
+          <div className="flex items-center gap-2">
+            {(['warn', 'block'] as BudgetMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => changeBudget(mode)}
+                className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                  budget.mode === mode ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-500 hover:text-white'
+                }`}
+              >
+                {mode === 'warn' ? 'Warn before going over' : 'Block runs over budget'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">By operation · this month</h4>
+          {byOperation.length === 0 && <p className="text-[11px] text-slate-500">Nothing billed this month yet.</p>}
+          <div className="flex flex-col gap-2">
+            {byOperation.map(([operation, group]) => {
+              const sum = sumUsage(group);
+              return (
+                <div key={operation} className="flex items-center justify-between gap-3 text-[11px]">
+                  <span className="font-bold text-slate-300">{OPERATION_LABELS[operation]}</span>
+                  <span className="text-slate-500">{sum.calls} calls · {formatTokens(sum.inputTokens + sum.outputTokens)} tokens{sum.images ? ` · ${sum.images} images` : ''}</span>
+                  <span className="font-black text-white">{formatCost(sum.cost)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        <div>
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">By project · this month</h4>
+          {byProject.length === 0 && <p className="text-[11px] text-slate-500">No projects billed this month yet.</p>}
+          <div className="flex flex-col gap-2">
+            {byProject.map((row, idx) => (
+              <div key={idx} className="flex items-center justify-between gap-3 text-[11px]">
+                <span className="font-bold text-slate-300 truncate">{row.label}</span>
+                <span className="shrink-0 text-slate-500">{row.totals.calls} calls</span>
+                <span className="shrink-0 font-black text-white">{formatCost(row.totals.cost)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4 flex items-center gap-2">
+          <ChartBarIcon className="w-4 h-4" />
+          Last {HISTORY_MONTHS} months
+        </h4>
+        <div className="flex items-end gap-3 h-32">
+          {history.map(({ key, cost }) => (
+            <div key={key} className="flex-1 flex flex-col items-center justify-end gap-2 h-full">
+              <span className="text-[9px] font-black text-slate-500">{formatCost(cost)}</span>
+              <div
+                className={`w-full rounded-t-lg ${limit !== null && cost > limit ? 'bg-red-500/70' : 'bg-indigo-500/60'}`}
+                style={{ height: `${Math.max(2, (cost / maxMonth) * 100)}%` }}
+              />
+              <span className="text-[9px] font-black text-slate-600 uppercase">{key}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Price table · USD</h4>
+          <button onClick={resetPrices} className="text-[10px] font-black text-slate-500 hover:text-white uppercase">Reset to defaults</button>
+        </div>
+        <div className="grid grid-cols-[minmax(0,2fr)_repeat(3,minmax(0,1fr))] gap-3 items-center">
+          <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Model</span>
+          <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Input / 1M</span>
+          <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Output / 1M</span>
+          <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Per image</span>
+          {models.map(model => (
+            <React.Fragment key={model}>
+              <span className="text-[11px] font-bold text-slate-300 truncate">{model}{!prices[model] && <span className="text-slate-600"> · unpriced</span>}</span>
+              {(['inputPerMillion', 'outputPerMillion', 'perImage'] as const).map(field => (
+                <input
+                  key={field}
+                  type="number"
+                  min={0}
+                  step="0.001"
+                  value={prices[model]?.[field] ?? 0}
+                  onChange={(e) => changePrice(model, field, e.target.value)}
+                  className={inputClass}
+                />
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-600 mt-3">New prices apply to calls from now on; recorded costs are not recalculated.</p>
+      </div>
+    </section>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,45 @@
+import { useCallback, useState } from 'react';
+
+export interface HistoryEntry<T> {
+  value: T;
+  label: string;
+  at: number;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+// Linear undo history: pushing after an undo drops the redo branch, like a text editor.
+export const useHistory = <T,>(limit = 50) => {
+  const [state, setState] = useState<HistoryState<T>>({ entries: [], index: -1 });
+
+  const reset = useCallback((value: T | null, label = 'Original') => {
+    setState(value === null ? { entries: [], index: -1 } : { entries: [{ value, label, at: Date.now() }], index: 0 });
+  }, []);
+
+  const push = useCallback((value: T, label: string) => {
+    setState(prev => {
+      const entries = [...prev.entries.slice(0, prev.index + 1), { value, label, at: Date.now() }].slice(-limit);
+      return { entries, index: entries.length - 1 };
+    });
+  }, [limit]);
+
+  const goTo = useCallback((index: number) => {
+    setState(prev => index < 0 || index >= prev.entries.length ? prev : { ...prev, index });
+  }, []);
+
+  return {
+    present: state.index >= 0 ? state.entries[state.index].value : null,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    reset,
+    push,
+    goTo,
+    undo: () => goTo(state.index - 1),
+    redo: () => goTo(state.index + 1)
+  };
+};
@@ -0,0 +1,168 @@
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChannelProfile } from "../types";
+import { MOCK_ANALYSIS } from "../services/fixtures";
+import { ProxyEvent } from "../services/proxy";
+import { createApp } from "./app";
+import { loadConfig } from "./config";
+import { createLogger } from "./logger";
+
+// The whole proxy against the mock upstream: fixtures instead of Gemini, no key needed.
+
+const servers: (() => Promise<void>)[] = [];
+
+const startApp = async (env: Record<string, string> = {}) => {
+  const app = createApp(loadConfig({ UPSTREAM: "mock", ...env }), createLogger("error", {}, () => undefined));
+  const server = createServer((req, res) => void app.handle(req, res));
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  servers.push(() => new Promise<void>(resolve => server.close(() => resolve())));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+};
+
+afterAll(() => Promise.all(servers.map(close => close())));
+
+const postJson = (url: string, body: unknown) =>
+  fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: typeof body === "string" ? body : JSON.stringify(body) });
+
+const readEvents = async (response: Response): Promise<ProxyEvent[]> =>
+  (await response.text()).split("\n").filter(Boolean).map(line => JSON.parse(line));
+
+const resultOf = (events: ProxyEvent[]) => events.find(e => e.type === "result");
+
+const VIDEO = { kind: "inline", data: "AAAA", mimeType: "video/mp4" };
+const PROFILE: ChannelProfile = {
+  id: "p1", name: "Calm Tech", tone: "calm", bannedWords: [], requiredHashtags: ["#tech"], ctaLinks: [], nicheKeywords: [], thumbnailStyle: "", exampleTitles: []
+};
+
+describe("proxy routes", () => {
+  let api: string;
+  beforeAll(async () => { api = await startApp(); });
+
+  it("reports health and the upstream in use", async () => {
+    const response = await fetch(`${api}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, upstream: "mock" });
+    expect(response.headers.get("x-request-id")).toBeTruthy();
+  });
+
+  it("answers unknown paths with 404 and wrong methods with 405", async () => {
+    expect((await fetch(`${api}/nope`)).status).toBe(404);
+    expect((await fetch(`${api}/health`, { method: "POST" })).status).toBe(405);
+  });
+
+  it("streams an analysis as NDJSON ending in the result", async () => {
+    const response = await postJson(`${api}/analyze`, { video: VIDEO, platforms: ["youtube"], profile: PROFILE });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/x-ndjson");
+    const events = await readEvents(response);
+    expect(events.some(e => e.type === "partial")).toBe(true);
+    expect(events.some(e => e.type === "usage")).toBe(true);
+    expect(events[events.length - 1].type).toBe("result");
+    expect(Object.keys((resultOf(events) as { result: typeof MOCK_ANALYSIS }).result.descriptions)).toEqual(["youtube"]);
+  });
+
+  it("regenerates titles and platform sections", async () => {
+    for (const section of ["titles", "youtube"]) {
+      const events = await readEvents(await postJson(`${api}/regenerate`, { analysis: MOCK_ANALYSIS, section, guidance: "shorter", profile: PROFILE }));
+      expect(resultOf(events)).toBeDefined();
+    }
+  });
+
+  it("localizes into a supported locale", async () => {
+    const events = await readEvents(await postJson(`${api}/localize`, { analysis: MOCK_ANALYSIS, locale: "es" }));
+    expect((resultOf(events) as { result: typeof MOCK_ANALYSIS }).result.locale).toBe("es");
+  });
+
+  it("generates a thumbnail with valid options", async () => {
+    const events = await readEvents(await postJson(`${api}/thumbnail`, {
+      prompt: "A cat", aspectRatio: "9:16", variant: 1, reference: "data:image/jpeg;base64,AAAA"
+    }));
+    expect((resultOf(events) as { result: string }).result).toMatch(/^data:image\//);
+  });
+
+  it.each([
+    ["analyze without a video", "/analyze", { platforms: ["youtube"] }],
+    ["analyze with an unknown video kind", "/analyze", { video: { kind: "url" } }],
+    ["analyze with an unknown platform", "/analyze", { video: VIDEO, platforms: ["youtube", "bogus"] }],
+    ["analyze with platforms that are not a list", "/analyze", { video: VIDEO, platforms: "youtube" }],
+    ["analyze with an empty profile", "/analyze", { video: VIDEO, profile: {} }],
+    ["analyze with a profile tone that is not text", "/analyze", { video: VIDEO, profile: { ...PROFILE, tone: 1 } }],
+    ["analyze with profile lists that are not text lists", "/analyze", { video: VIDEO, profile: { ...PROFILE, bannedWords: [1] } }],
+    ["regenerate without an analysis", "/regenerate", { section: "titles" }],
+    ["regenerate with an unknown section", "/regenerate", { analysis: MOCK_ANALYSIS, section: "bogus" }],
+    ["regenerate with guidance that is not text", "/regenerate", { analysis: MOCK_ANALYSIS, section: "titles", guidance: 5 }],
+    ["regenerate with a malformed profile", "/regenerate", { analysis: MOCK_ANALYSIS, section: "titles", profile: { name: "x" } }],
+    ["localize without a locale", "/localize", { analysis: MOCK_ANALYSIS }],
+    ["localize into an unsupported locale", "/localize", { analysis: MOCK_ANALYSIS, locale: "klingon" }],
+    ["thumbnail without a prompt", "/thumbnail", { prompt: "  " }],
+    ["thumbnail with an unsupported aspect ratio", "/thumbnail", { prompt: "x", aspectRatio: "2:1" }],
+    ["thumbnail with a negative variant", "/thumbnail", { prompt: "x", variant: -1 }],
+    ["thumbnail with a fractional variant", "/thumbnail", { prompt: "x", variant: 1.5 }],
+    ["thumbnail with a reference that is not a data URL", "/thumbnail", { prompt: "x", reference: "https://example.com/a.jpg" }],
+    ["thumbnail with an oversized reference", "/thumbnail", { prompt: "x", reference: `data:image/jpeg;base64,${"A".repeat(8 * 1024 * 1024)}` }],
+    ["a body that is not JSON", "/analyze", "{not json"]
+  ])("rejects %s with 400", async (_name, path, body) => {
+    const response = await postJson(`${api}${path}`, body);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.status).toBe("INVALID_ARGUMENT");
+  });
+
+  it("accepts a mock upload and serves the finished file", async () => {
+    const start = await fetch(`${api}/upload/v1beta/files`, {
+      method: "POST",
+      headers: { "X-Goog-Upload-Command": "start", "X-Goog-Upload-Header-Content-Length": "4", "X-Goog-Upload-Header-Content-Type": "video/webm" },
+      body: "{}"
+    });
+    const uploadUrl = new URL(start.headers.get("x-goog-upload-url")!, api).href;
+    const id = uploadUrl.split("/").pop();
+    expect((await fetch(`${api}/v1beta/files/${id}`)).status).toBe(404);
+
+    const finish = await fetch(uploadUrl, { method: "POST", headers: { "X-Goog-Upload-Command": "upload, finalize", "X-Goog-Upload-Offset": "0" }, body: "abcd" });
+    expect(finish.headers.get("x-goog-upload-status")).toBe("final");
+    const file = await (await fetch(`${api}/v1beta/files/${id}`)).json();
+    expect(file).toMatchObject({ name: `files/${id}`, mimeType: "video/webm", state: "ACTIVE" });
+  });
+
+  it("rejects a mock upload without a declared size or at the wrong offset", async () => {
+    const missing = await fetch(`${api}/upload/v1beta/files`, { method: "POST", headers: { "X-Goog-Upload-Command": "start" }, body: "{}" });
+    expect(missing.status).toBe(400);
+
+    const start = await fetch(`${api}/upload/v1beta/files`, { method: "POST", headers: { "X-Goog-Upload-Header-Content-Length": "8" }, body: "{}" });
+    const uploadUrl = new URL(start.headers.get("x-goog-upload-url")!, api).href;
+    const skipped = await fetch(uploadUrl, { method: "POST", headers: { "X-Goog-Upload-Command": "upload", "X-Goog-Upload-Offset": "4" }, body: "abcd" });
+    expect(skipped.status).toBe(400);
+    expect((await fetch(`${api}/mock-upload/unknown`, { method: "POST", headers: { "X-Goog-Upload-Command": "query" } })).status).toBe(404);
+  });
+});
+
+describe("proxy limits", () => {
+  it("refuses request bodies over the JSON limit with 413", async () => {
+    const api = await startApp({ MAX_JSON_MB: String(1 / 1024) });
+    const response = await postJson(`${api}/thumbnail`, { prompt: "x".repeat(2048) });
+    expect(response.status).toBe(413);
+  });
+
+  it("rate limits each user and tells the client when to retry", async () => {
+    const api = await startApp({ RATE_LIMIT_PER_MINUTE: "2" });
+    expect((await postJson(`${api}/thumbnail`, {})).status).toBe(400);
+    expect((await postJson(`${api}/thumbnail`, {})).status).toBe(400);
+    const limited = await postJson(`${api}/thumbnail`, {});
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("retry-after"))).toBe(30);
+    const { error } = await limited.json();
+    expect(error.status).toBe("RESOURCE_EXHAUSTED");
+    expect(error.details[0]).toEqual({ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "30s" });
+    // Health checks are never limited.
+    expect((await fetch(`${api}/health`)).status).toBe(200);
+  });
+
+  it("limits full analyses separately per hour", async () => {
+    const api = await startApp({ ANALYSES_PER_HOUR: "1" });
+    expect((await postJson(`${api}/analyze`, {})).status).toBe(400);
+    const limited = await postJson(`${api}/analyze`, {});
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).error.message).toMatch(/1 analyses per hour/);
+    expect((await postJson(`${api}/thumbnail`, {})).status).toBe(400);
+  });
+});
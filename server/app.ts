@@ -0,0 +1,250 @@
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { VideoAnalysis } from "../types";
+import { isAbortError, toAnalysisError } from "../services/errors";
+import { geminiProvider } from "../services/gemini";
+import { mockProvider } from "../services/mock";
+import { THUMBNAIL_ASPECT_RATIOS } from "../services/pipeline";
+import { isPlatformId } from "../services/platforms";
+import { findLocale } from "../utils/locales";
+import { AIProvider, AnalyzeOptions } from "../services/provider";
+import { AnalyzeRequest, LocalizeRequest, PROXY_ROUTES, ProxyEvent, RegenerateRequest, ThumbnailRequest } from "../services/proxy";
+import { ServerConfig } from "./config";
+import { FilesHandler, geminiFiles, MOCK_UPLOAD_PATH, mockFiles } from "./files";
+import { clientId, HttpError, readJson, sendError, sendJson } from "./http";
+import { Logger } from "./logger";
+import { RateLimiter } from "./rateLimit";
+
+// Request handling for the proxy. Model calls run the same providers as the app used to run in
+// the browser, with the key read server-side, and stream their progress back as NDJSON events.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Partial analyses are resent whole, so they are throttled rather than forwarded for every chunk.
+const PARTIAL_INTERVAL_MS = 250;
+
+// Reference frames are JPEG crops of one video frame; anything far larger is not one.
+const MAX_REFERENCE_BYTES = 8 * 1024 * 1024;
+const REFERENCE_PATTERN = /^data:image\/[\w.+-]+;base64,/;
+
+type Context = { req: IncomingMessage; res: ServerResponse; log: Logger };
+
+type Handler = (ctx: Context, param: string) => Promise<void>;
+
+interface Route {
+  method: "GET" | "POST";
+  path: string; // exact, or a prefix when it ends in "/" (the rest is passed as `param`)
+  limiters: RateLimiter[];
+  handle: Handler;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const requireFields = <T>(body: unknown, check: (body: Record<string, unknown>) => boolean, what: string): T => {
+  if (!isObject(body) || !check(body)) throw new HttpError(400, `Request body must include ${what}.`);
+  return body as T;
+};
+
+const isAnalysis = (value: unknown) => isObject(value) && typeof value.transcription === "string" && Array.isArray(value.titles);
+
+const isSection = (value: unknown) => value === "titles" || (typeof value === "string" && isPlatformId(value));
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === "string");
+
+const PROFILE_TEXT_FIELDS = ["id", "name", "tone", "thumbnailStyle"];
+const PROFILE_LIST_FIELDS = ["bannedWords", "requiredHashtags", "ctaLinks", "nicheKeywords", "exampleTitles"];
+
+const isProfile = (value: unknown) => isObject(value)
+  && PROFILE_TEXT_FIELDS.every(field => typeof value[field] === "string")
+  && PROFILE_LIST_FIELDS.every(field => isStringList(value[field]));
+
+// Optional fields shared by the model routes. The providers trust their shape, and a bad one would
+// only surface as a failed stream after the 200 has been sent.
+const checkCallOptions = (body: { platforms?: unknown; profile?: unknown; guidance?: unknown }) => {
+  if (body.platforms !== undefined && !(Array.isArray(body.platforms) && body.platforms.every(id => typeof id === "string" && isPlatformId(id)))) {
+    throw new HttpError(400, "platforms must be a list of known platform ids.");
+  }
+  if (body.profile !== undefined && !isProfile(body.profile)) {
+    throw new HttpError(400, "profile is not a valid channel profile.");
+  }
+  if (body.guidance !== undefined && typeof body.guidance !== "string") {
+    throw new HttpError(400, "guidance must be a string.");
+  }
+};
+
+// Optional thumbnail settings are checked here so bad input is a 400, not a failed upstream call.
+const checkThumbnailOptions = (body: ThumbnailRequest) => {
+  if (body.aspectRatio !== undefined && !THUMBNAIL_ASPECT_RATIOS.includes(body.aspectRatio)) {
+    throw new HttpError(400, `aspectRatio must be one of ${THUMBNAIL_ASPECT_RATIOS.join(", ")}.`);
+  }
+  if (body.variant !== undefined && !(Number.isInteger(body.variant) && body.variant >= 0)) {
+    throw new HttpError(400, "variant must be a non-negative integer.");
+  }
+  if (body.reference !== undefined && (typeof body.reference !== "string" || !REFERENCE_PATTERN.test(body.reference))) {
+    throw new HttpError(400, "reference must be a base64 image data: URL.");
+  }
+  if (body.reference !== undefined && body.reference.length > MAX_REFERENCE_BYTES) {
+    throw new HttpError(400, `reference is over the ${MAX_REFERENCE_BYTES / (1024 * 1024)} MB limit.`);
+  }
+};
+
+// Runs one provider call and streams its events. A client that disconnects aborts the call,
+// so a cancelled analysis stops spending tokens upstream too.
+const streamCall = async (ctx: Context, run: (options: AnalyzeOptions) => Promise<unknown>) => {
+  const { res, log } = ctx;
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" });
+  const emit = (event: ProxyEvent) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  let lastPartial = 0;
+  const options: AnalyzeOptions = {
+    signal: controller.signal,
+    onRetry: retry => {
+      log.warn("upstream retry", { attempt: retry.attempt, delayMs: retry.delayMs });
+      emit({ type: "retry", retry });
+    },
+    onUsage: usage => {
+      log.info("upstream usage", { ...usage });
+      emit({ type: "usage", usage });
+    },
+    onPartial: (partial: Partial<VideoAnalysis>) => {
+      const now = Date.now();
+      if (now - lastPartial < PARTIAL_INTERVAL_MS) return;
+      lastPartial = now;
+      emit({ type: "partial", partial });
+    }
+  };
+
+  try {
+    emit({ type: "result", result: await run(options) });
+  } catch (err) {
+    if (controller.signal.aborted && isAbortError(err)) {
+      log.info("client disconnected, upstream call cancelled");
+      return;
+    }
+    const error = toAnalysisError(err);
+    log.error("upstream call failed", { code: error.code, details: error.details?.slice(0, 500) });
+    emit({ type: "error", code: error.code, message: error.message });
+  } finally {
+    res.end();
+  }
+};
+
+export const createApp = (config: ServerConfig, logger: Logger) => {
+  const provider: AIProvider = config.upstream === "mock" ? mockProvider : geminiProvider;
+  const files: FilesHandler = config.upstream === "mock" ? mockFiles(config) : geminiFiles(config);
+  const requests = new RateLimiter(config.requestsPerMinute, MINUTE);
+  const analyses = new RateLimiter(config.analysesPerHour, HOUR);
+
+  const api = (route: string) => `/api${route}`;
+
+  const routes: Route[] = [
+    {
+      method: "GET", path: "/api/health", limiters: [],
+      handle: async ({ res }) => sendJson(res, 200, { ok: true, upstream: config.upstream })
+    },
+    {
+      method: "POST", path: api(PROXY_ROUTES.analyze), limiters: [requests, analyses],
+      handle: async ctx => {
+        const body = requireFields<AnalyzeRequest>(await readJson(ctx.req, config.maxJsonBytes),
+          b => isObject(b.video) && (b.video.kind === "file" || b.video.kind === "inline"), "a video");
+        checkCallOptions(body);
+        await streamCall(ctx, options => provider.analyzeVideo(body.video, { ...options, platforms: body.platforms, profile: body.profile }));
+      }
+    },
+    {
+      method: "POST", path: api(PROXY_ROUTES.regenerate), limiters: [requests],
+      handle: async ctx => {
+        const body = requireFields<RegenerateRequest>(await readJson(ctx.req, config.maxJsonBytes),
+          b => isAnalysis(b.analysis) && isSection(b.section), "an analysis and a section (titles or a platform id)");
+        checkCallOptions(body);
+        await streamCall(ctx, options => provider.regenerateSection(body.analysis, body.section, body.guidance, body.profile, options));
+      }
+    },
+    {
+      method: "POST", path: api(PROXY_ROUTES.localize), limiters: [requests],
+      handle: async ctx => {
+        const body = requireFields<LocalizeRequest>(await readJson(ctx.req, config.maxJsonBytes),
+          b => isAnalysis(b.analysis) && typeof b.locale === "string" && !!findLocale(b.locale), "an analysis and a supported locale");
+        await streamCall(ctx, options => provider.localizeAnalysis(body.analysis, body.locale, options));
+      }
+    },
+    {
+      method: "POST", path: api(PROXY_ROUTES.thumbnail), limiters: [requests],
+      handle: async ctx => {
+        const body = requireFields<ThumbnailRequest>(await readJson(ctx.req, config.maxJsonBytes),
+          b => typeof b.prompt === "string" && b.prompt.trim() !== "", "a prompt");
+        checkThumbnailOptions(body);
+        await streamCall(ctx, options => provider.generateThumbnail(body.prompt, body.aspectRatio, body.variant, body.reference, options));
+      }
+    },
+    {
+      method: "POST", path: "/api/upload/v1beta/files", limiters: [requests],
+      handle: ({ req, res }) => files.startUpload(req, res)
+    },
+    {
+      method: "GET", path: "/api/v1beta/files/", limiters: [requests],
+      handle: ({ req, res }, id) => files.getFile(req, res, id)
+    }
+  ];
+  // Chunks belong to an upload that was already admitted, so they are not rate limited.
+  const { receiveChunk } = files;
+  if (receiveChunk) {
+    routes.push({ method: "POST", path: MOCK_UPLOAD_PATH, limiters: [], handle: ({ req, res }, id) => receiveChunk(req, res, id) });
+  }
+
+  const match = (method: string, pathname: string): { route: Route; param: string } => {
+    const candidates = routes.filter(route => route.path.endsWith("/")
+      ? pathname.startsWith(route.path) && /^[\w-]+$/.test(pathname.slice(route.path.length))
+      : pathname === route.path);
+    if (!candidates.length) throw new HttpError(404, `No route for ${pathname}.`);
+    const route = candidates.find(r => r.method === method);
+    if (!route) throw new HttpError(405, `${method} is not allowed on ${pathname}.`);
+    return { route, param: route.path.endsWith("/") ? pathname.slice(route.path.length) : "" };
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const started = Date.now();
+    const requestId = randomUUID();
+    const pathname = new URL(req.url || "/", "http://localhost").pathname;
+    const user = clientId(req, config.trustProxy);
+    const log = logger.child({ requestId });
+    res.setHeader("X-Request-Id", requestId);
+    res.on("finish", () => {
+      log.info("request", { method: req.method, path: pathname, status: res.statusCode, durationMs: Date.now() - started, user });
+    });
+
+    try {
+      const { route, param } = match(req.method || "GET", pathname);
+      for (const limiter of route.limiters) {
+        const decision = limiter.take(user);
+        if (!decision.allowed) {
+          log.warn("rate limited", { user, path: pathname, retryAfterMs: decision.retryAfterMs });
+          throw new HttpError(429, limiter === analyses
+            ? `Only ${config.analysesPerHour} analyses per hour are allowed. Try again later.`
+            : "Too many requests. Slow down and try again shortly.", decision.retryAfterMs);
+        }
+      }
+      await route.handle({ req, res, log }, param);
+    } catch (err) {
+      const error = err instanceof HttpError ? err : new HttpError(502, "The upstream service could not be reached.");
+      if (!(err instanceof HttpError)) log.error("request failed", { error: err instanceof Error ? err.message : String(err) });
+      if (res.headersSent) res.end();
+      else sendError(res, error);
+    }
+  };
+
+  // Limiter state only grows with distinct users; dropping idle ones bounds memory.
+  const prune = () => {
+    requests.prune();
+    analyses.prune();
+  };
+
+  return { handle, prune };
+};
@@ -0,0 +1,47 @@
+// Server settings, read once at startup from the environment (and .env.local when present).
+
+export type Upstream = "gemini" | "mock";
+
+export interface ServerConfig {
+  port: number;
+  apiKey: string; // never sent to the browser or written to logs
+  upstream: Upstream; // "mock" serves fixtures and accepts uploads itself, so the stack runs without a key
+  requestsPerMinute: number; // per user, across every API route
+  analysesPerHour: number; // per user, full video analyses only
+  maxJsonBytes: number; // request bodies; inline videos are sent base64 inside JSON
+  maxChunkBytes: number; // mock upload chunks
+  trustProxy: boolean; // take the client address from X-Forwarded-For
+  logLevel: LogLevel;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const MB = 1024 * 1024;
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const upstream: Upstream = env.UPSTREAM?.trim().toLowerCase() === "mock" ? "mock" : "gemini";
+  const apiKey = env.GEMINI_API_KEY || env.API_KEY || "";
+  if (upstream === "gemini" && !apiKey) {
+    throw new Error("GEMINI_API_KEY is not set. Add it to .env.local, or run with UPSTREAM=mock.");
+  }
+  const logLevel = (env.LOG_LEVEL || "info").toLowerCase() as LogLevel;
+  return {
+    port: readNumber(env.PORT, 8787),
+    apiKey,
+    upstream,
+    requestsPerMinute: readNumber(env.RATE_LIMIT_PER_MINUTE, 60),
+    analysesPerHour: readNumber(env.ANALYSES_PER_HOUR, 20),
+    // 20 MB of inline video grows by a third as base64, plus the rest of the request.
+    maxJsonBytes: readNumber(env.MAX_JSON_MB, 32) * MB,
+    maxChunkBytes: readNumber(env.MAX_CHUNK_MB, 16) * MB,
+    trustProxy: env.TRUST_PROXY === "1" || env.TRUST_PROXY === "true",
+    logLevel: LOG_LEVELS.includes(logLevel) ? logLevel : "info"
+  };
+};
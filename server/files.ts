@@ -0,0 +1,111 @@
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { DEFAULT_FILES_API_BASE } from "../services/upload";
+import { ServerConfig } from "./config";
+import { HttpError, readBody, sendJson } from "./http";
+
+// The Files API endpoints that need the key, mirrored under /api so services/upload.ts works
+// unchanged with `baseUrl` pointed at the proxy. Only the session start and status polls pass
+// through here; the chunks go to the upload URL the API returns, which carries its own token.
+
+export interface FilesHandler {
+  startUpload(req: IncomingMessage, res: ServerResponse): Promise<void>;
+  getFile(req: IncomingMessage, res: ServerResponse, id: string): Promise<void>;
+  // Mock upstream only: the upload URL handed out by startUpload.
+  receiveChunk?(req: IncomingMessage, res: ServerResponse, id: string): Promise<void>;
+}
+
+export const MOCK_UPLOAD_PATH = "/api/mock-upload/";
+
+// Headers of the resumable protocol that the start request needs to keep.
+const FORWARDED_HEADERS = ["x-goog-upload-protocol", "x-goog-upload-command", "x-goog-upload-header-content-length", "x-goog-upload-header-content-type", "content-type"];
+
+const START_BODY_LIMIT = 64 * 1024;
+
+const relay = async (res: ServerResponse, upstream: Response, headers: Record<string, string> = {}) => {
+  const body = await upstream.text();
+  res.writeHead(upstream.status, { "Content-Type": upstream.headers.get("content-type") || "application/json", ...headers });
+  res.end(body);
+};
+
+export const geminiFiles = (config: ServerConfig): FilesHandler => ({
+  async startUpload(req, res) {
+    const body = await readBody(req, START_BODY_LIMIT);
+    const headers: Record<string, string> = { "x-goog-api-key": config.apiKey };
+    for (const name of FORWARDED_HEADERS) {
+      const value = req.headers[name];
+      if (typeof value === "string") headers[name] = value;
+    }
+    const upstream = await fetch(`${DEFAULT_FILES_API_BASE}/upload/v1beta/files`, { method: "POST", headers, body });
+    const uploadUrl = upstream.headers.get("x-goog-upload-url");
+    await relay(res, upstream, uploadUrl ? { "X-Goog-Upload-URL": uploadUrl } : {});
+  },
+
+  async getFile(_req, res, id) {
+    const upstream = await fetch(`${DEFAULT_FILES_API_BASE}/v1beta/files/${id}`, { headers: { "x-goog-api-key": config.apiKey } });
+    await relay(res, upstream);
+  }
+});
+
+interface MockSession {
+  name: string;
+  mimeType: string;
+  size: number;
+  received: number;
+  done: boolean;
+}
+
+// Accepts uploads without storing them: byte counts are tracked so the resume path behaves like
+// the real API, then the file is reported ACTIVE. Sessions live as long as the process.
+export const mockFiles = (config: ServerConfig): FilesHandler => {
+  const sessions = new Map<string, MockSession>();
+
+  const fileOf = (session: MockSession) => ({ name: session.name, uri: `mock://${session.name}`, mimeType: session.mimeType, state: "ACTIVE" });
+
+  return {
+    async startUpload(req, res) {
+      await readBody(req, START_BODY_LIMIT);
+      const size = Number(req.headers["x-goog-upload-header-content-length"]);
+      if (!Number.isFinite(size) || size <= 0) throw new HttpError(400, "X-Goog-Upload-Header-Content-Length is required.");
+      const id = `mock-${randomUUID()}`;
+      const mimeType = String(req.headers["x-goog-upload-header-content-type"] || "video/mp4");
+      sessions.set(id, { name: `files/${id}`, mimeType, size, received: 0, done: false });
+      res.writeHead(200, { "X-Goog-Upload-URL": `${MOCK_UPLOAD_PATH}${id}`, "X-Goog-Upload-Status": "active" });
+      res.end();
+    },
+
+    async getFile(_req, res, id) {
+      const session = sessions.get(id);
+      if (!session?.done) throw new HttpError(404, `File files/${id} was not found.`);
+      sendJson(res, 200, fileOf(session));
+    },
+
+    async receiveChunk(req, res, id) {
+      const session = sessions.get(id);
+      if (!session) throw new HttpError(404, "Upload session not found.");
+      const command = String(req.headers["x-goog-upload-command"] || "");
+      if (command === "query") {
+        await readBody(req, 0);
+        res.writeHead(200, { "X-Goog-Upload-Status": session.done ? "final" : "active", "X-Goog-Upload-Size-Received": String(session.received) });
+        res.end();
+        return;
+      }
+      const offset = Number(req.headers["x-goog-upload-offset"]);
+      const chunk = await readBody(req, config.maxChunkBytes);
+      if (session.done || offset !== session.received) {
+        throw new HttpError(400, `Expected offset ${session.received}, got ${req.headers["x-goog-upload-offset"]}.`);
+      }
+      session.received += chunk.length;
+      if (!command.includes("finalize")) {
+        res.writeHead(200, { "X-Goog-Upload-Status": "active" });
+        res.end();
+        return;
+      }
+      if (session.received !== session.size) {
+        throw new HttpError(400, `Upload finished at ${session.received} of ${session.size} bytes.`);
+      }
+      session.done = true;
+      sendJson(res, 200, { file: fileOf(session) }, { "X-Goog-Upload-Status": "final" });
+    }
+  };
+};
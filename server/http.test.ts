@@ -0,0 +1,64 @@
+import { createServer, request, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { HttpError, readBody, readJson, sendError, sendJson } from "./http";
+
+const LIMIT = 1024;
+
+let server: Server;
+let port: number;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const read = req.url === "/json" ? readJson(req, LIMIT) : readBody(req, LIMIT).then(body => ({ bytes: body.length }));
+    read.then(
+      body => sendJson(res, 200, body),
+      err => sendError(res, err instanceof HttpError ? err : new HttpError(500, String(err)))
+    );
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+// Raw requests, so the body can be sent with or without a Content-Length header.
+const post = (path: string, chunks: string[], declareLength: boolean) => new Promise<{ status: number; body: any }>((resolve, reject) => {
+  const total = chunks.reduce((sum, chunk) => sum + Buffer.byteLength(chunk), 0);
+  const req = request({ host: "127.0.0.1", port, path, method: "POST", headers: declareLength ? { "Content-Length": total } : {} }, res => {
+    let text = "";
+    res.setEncoding("utf8");
+    res.on("data", chunk => { text += chunk; });
+    res.on("end", () => resolve({ status: res.statusCode || 0, body: JSON.parse(text) }));
+  });
+  req.on("error", reject);
+  chunks.forEach(chunk => req.write(chunk));
+  req.end();
+});
+
+describe("readBody", () => {
+  it("reads a body up to the limit", async () => {
+    expect(await post("/", ["a".repeat(LIMIT)], true)).toEqual({ status: 200, body: { bytes: LIMIT } });
+    expect(await post("/", ["a".repeat(600), "b".repeat(424)], false)).toEqual({ status: 200, body: { bytes: LIMIT } });
+  });
+
+  it("refuses a declared Content-Length over the limit with 413", async () => {
+    const { status, body } = await post("/", ["a".repeat(LIMIT + 1)], true);
+    expect(status).toBe(413);
+    expect(body.error.status).toBe("PAYLOAD_TOO_LARGE");
+  });
+
+  it("stops reading a chunked body once it passes the limit", async () => {
+    const { status } = await post("/", ["a".repeat(800), "b".repeat(800)], false);
+    expect(status).toBe(413);
+  });
+});
+
+describe("readJson", () => {
+  it("parses JSON bodies and rejects malformed ones with 400", async () => {
+    expect(await post("/json", ['{"ok":true}'], true)).toEqual({ status: 200, body: { ok: true } });
+    const { status, body } = await post("/json", ["{nope"], true);
+    expect(status).toBe(400);
+    expect(body.error).toMatchObject({ code: 400, status: "INVALID_ARGUMENT" });
+  });
+});
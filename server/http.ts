@@ -0,0 +1,78 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+
+// Error bodies follow the Gemini API's shape ({ error: { code, message, status } }) so the
+// browser maps proxy errors exactly like upstream ones (see toAnalysisError).
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly retryAfterMs = 0) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const STATUS_NAMES: Record<number, string> = {
+  400: "INVALID_ARGUMENT",
+  404: "NOT_FOUND",
+  405: "METHOD_NOT_ALLOWED",
+  413: "PAYLOAD_TOO_LARGE",
+  429: "RESOURCE_EXHAUSTED",
+  500: "INTERNAL",
+  502: "UNAVAILABLE"
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload), ...headers });
+  res.end(payload);
+};
+
+export const sendError = (res: ServerResponse, err: HttpError) => {
+  const seconds = Math.ceil(err.retryAfterMs / 1000);
+  const error = {
+    code: err.status,
+    message: err.message,
+    status: STATUS_NAMES[err.status] || "UNKNOWN",
+    // Same RetryInfo detail the API sends, so the browser's backoff honours it.
+    ...(seconds > 0 ? { details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: `${seconds}s` }] } : {})
+  };
+  sendJson(res, err.status, { error }, seconds > 0 ? { "Retry-After": String(seconds) } : {});
+};
+
+// Reads the whole body, refusing anything over `limit` bytes without buffering it first.
+export const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const declared = Number(req.headers["content-length"]);
+  if (Number.isFinite(declared) && declared > limit) {
+    req.resume();
+    return reject(new HttpError(413, `Request body is over the ${Math.round(limit / (1024 * 1024))} MB limit.`));
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > limit) {
+      req.removeAllListeners("data");
+      req.resume();
+      reject(new HttpError(413, `Request body is over the ${Math.round(limit / (1024 * 1024))} MB limit.`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => resolve(Buffer.concat(chunks)));
+  req.on("error", reject);
+});
+
+export const readJson = async <T>(req: IncomingMessage, limit: number): Promise<T> => {
+  const body = await readBody(req, limit);
+  try {
+    return JSON.parse(body.toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+};
+
+// There are no accounts, so a "user" is a client address. Behind a reverse proxy the
+// socket address is the proxy's, and the first X-Forwarded-For entry is the real client.
+export const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string" && forwarded.trim()) return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress || "unknown";
+};
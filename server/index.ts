@@ -0,0 +1,43 @@
+import { createServer } from "node:http";
+import { createApp } from "./app";
+import { loadConfig } from "./config";
+import { createLogger } from "./logger";
+
+// Entry point: `npm run server`. Holds the Gemini key so it never ships in the browser bundle.
+
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // No .env.local: settings come from the environment alone.
+}
+
+const config = loadConfig();
+const logger = createLogger(config.logLevel, { service: "vidigenius-proxy" });
+const app = createApp(config, logger);
+
+const server = createServer((req, res) => void app.handle(req, res));
+const pruneTimer = setInterval(app.prune, PRUNE_INTERVAL_MS);
+pruneTimer.unref();
+
+server.listen(config.port, () => {
+  logger.info("listening", {
+    port: config.port,
+    upstream: config.upstream,
+    requestsPerMinute: config.requestsPerMinute,
+    analysesPerHour: config.analysesPerHour
+  });
+});
+
+const shutdown = (signal: string) => {
+  logger.info("shutting down", { signal });
+  clearInterval(pruneTimer);
+  server.close(() => process.exit(0));
+  // Streams of long analyses would otherwise hold the process open.
+  setTimeout(() => process.exit(0), 10_000).unref();
+  server.closeIdleConnections();
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
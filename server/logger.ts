@@ -0,0 +1,30 @@
+import { LogLevel } from "./config";
+
+// Structured logging: one JSON object per line on stdout, so logs can be grepped locally
+// and shipped as-is. Callers pass fields, never request bodies or keys.
+
+const ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+export const createLogger = (level: LogLevel, base: LogFields = {}, write: (line: string) => void = line => process.stdout.write(`${line}\n`)): Logger => {
+  const log = (at: LogLevel, msg: string, fields: LogFields = {}) => {
+    if (ORDER[at] < ORDER[level]) return;
+    write(JSON.stringify({ time: new Date().toISOString(), level: at, msg, ...base, ...fields }));
+  };
+  return {
+    debug: (msg, fields) => log("debug", msg, fields),
+    info: (msg, fields) => log("info", msg, fields),
+    warn: (msg, fields) => log("warn", msg, fields),
+    error: (msg, fields) => log("error", msg, fields),
+    child: (fields) => createLogger(level, { ...base, ...fields }, write)
+  };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { RateLimiter } from "./rateLimit";
+
+const clock = () => {
+  let now = 0;
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+};
+
+describe("RateLimiter", () => {
+  it("allows a burst up to capacity, then reports when the next token arrives", () => {
+    const time = clock();
+    const limiter = new RateLimiter(2, 2048, time.now);
+    expect([1, 2].map(() => limiter.take("a").allowed)).toEqual([true, true]);
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 1024 });
+  });
+
+  it("refills evenly over the window and never above capacity", () => {
+    const time = clock();
+    // Two tokens per 2048ms is one every 1024ms, which keeps the arithmetic exact.
+    const limiter = new RateLimiter(2, 2048, time.now);
+    limiter.take("a");
+    limiter.take("a");
+
+    time.advance(512);
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 512 });
+    time.advance(512);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+
+    time.advance(10 * 2048);
+    expect([1, 2, 3].map(() => limiter.take("a").allowed)).toEqual([true, true, false]);
+  });
+
+  it("keeps a separate bucket per user", () => {
+    const limiter = new RateLimiter(1, 60_000, clock().now);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+    expect(limiter.take("b").allowed).toBe(true);
+  });
+
+  it("prunes only buckets idle for a full window", () => {
+    const time = clock();
+    const limiter = new RateLimiter(1, 60_000, time.now);
+    limiter.take("idle");
+    time.advance(30_000);
+    limiter.take("busy");
+    time.advance(30_000);
+    limiter.prune();
+
+    // A pruned bucket starts full again; a kept one is still empty.
+    expect(limiter.take("idle").allowed).toBe(true);
+    expect(limiter.take("busy").allowed).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+// Token bucket per user: `capacity` requests in a burst, refilled evenly over `windowMs`.
+
+export interface RateDecision {
+  allowed: boolean;
+  retryAfterMs: number; // until one more request would be allowed; 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private capacity: number, private windowMs: number, private now: () => number = Date.now) {}
+
+  take(key: string): RateDecision {
+    const now = this.now();
+    const refillPerMs = this.capacity / this.windowMs;
+    const bucket = this.buckets.get(key) || { tokens: this.capacity, updatedAt: now };
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+  }
+
+  // Full buckets carry no state worth keeping; dropping them bounds memory to active users.
+  prune() {
+    const now = this.now();
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= this.windowMs) this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { ChannelProfile, EditableSection, ThumbnailAspectRatio, VideoAnalysis, VideoSource } from "../types";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { AIProvider, AnalyzeOptions, ProviderId, RequestOptions } from "./provider";
+import { proxyProvider } from "./proxy";
+import { UploadedFile, UploadOptions } from "./upload";
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+  proxy: proxyProvider
+};
+
+// AI_PROVIDER comes from .env.local (see vite.config.ts); anything unrecognised falls back to the
+// backend proxy, which holds the key. "gemini" calls the API directly and only works where a key is set.
+const configuredProvider = (): ProviderId => {
+  const id = (process.env.AI_PROVIDER || '').trim().toLowerCase();
+  return id in PROVIDERS ? (id as ProviderId) : "proxy";
+};
+
+let activeProvider: AIProvider = PROVIDERS[configuredProvider()];
+
+export const getProvider = () => activeProvider;
+
+export const setProvider = (provider: ProviderId | AIProvider) => {
+  activeProvider = typeof provider === 'string' ? PROVIDERS[provider] : provider;
+};
+
+export const uploadVideo = (file: File, options?: UploadOptions): Promise<UploadedFile> =>
+  activeProvider.uploadVideo(file, options);
+
+export const analyzeVideo = (video: VideoSource, options?: AnalyzeOptions): Promise<VideoAnalysis> =>
+  activeProvider.analyzeVideo(video, options);
+
+export const regenerateSection = (analysis: VideoAnalysis, section: EditableSection, guidance?: string, profile?: ChannelProfile, options?: RequestOptions): Promise<VideoAnalysis> =>
+  activeProvider.regenerateSection(analysis, section, guidance, profile, options);
+
+export const localizeAnalysis = (analysis: VideoAnalysis, locale: string, options?: RequestOptions): Promise<VideoAnalysis> =>
+  activeProvider.localizeAnalysis(analysis, locale, options);
+
+export const generateThumbnail = (prompt: string, aspectRatio?: ThumbnailAspectRatio, variant?: number, reference?: string, options?: RequestOptions): Promise<string> =>
+  activeProvider.generateThumbnail(prompt, aspectRatio, variant, reference, options);
@@ -0,0 +1,105 @@
+import { Project, VideoAnalysis } from "../types";
+import { AnalysisError } from "./errors";
+import { RetryInfo } from "./retry";
+import { BudgetCheck } from "./usage";
+import { UploadProgress } from "./upload";
+
+// Screens of the single-file flow. The steps of a run carry its `runId`, so late events from a
+// cancelled or superseded run are dropped instead of overwriting what is on screen.
+export type AppPhase =
+  | { name: 'idle' }
+  | { name: 'library' }
+  | { name: 'queue' }
+  | { name: 'usage' }
+  | { name: 'hashing'; runId: number; fileName: string }
+  | { name: 'uploading'; runId: number; fileName: string; progress: UploadProgress | null }
+  | { name: 'analyzing'; runId: number; fileName: string; partial: Partial<VideoAnalysis>; retry: RetryInfo | null }
+  | { name: 'thumbnail'; runId: number; fileName: string; retry: RetryInfo | null }
+  | { name: 'cachedMatch'; match: Project }
+  | { name: 'overBudget'; check: BudgetCheck }
+  | { name: 'completed' }
+  | { name: 'error'; error: AnalysisError; canResume: boolean };
+
+export type RunPhase = Extract<AppPhase, { runId: number }>;
+
+export type AppEvent =
+  | { type: 'START'; runId: number; fileName: string }
+  | { type: 'CACHED'; runId: number; match: Project }
+  | { type: 'OVER_BUDGET'; runId: number; check: BudgetCheck }
+  | { type: 'UPLOAD'; runId: number }
+  | { type: 'UPLOAD_PROGRESS'; runId: number; progress: UploadProgress }
+  | { type: 'ANALYZE'; runId: number }
+  | { type: 'PARTIAL'; runId: number; partial: Partial<VideoAnalysis> }
+  | { type: 'RETRY'; runId: number; retry: RetryInfo }
+  | { type: 'THUMBNAIL'; runId: number }
+  | { type: 'FINISH'; runId: number }
+  | { type: 'FAIL'; runId: number; error: AnalysisError; canResume?: boolean }
+  | { type: 'CANCEL' }
+  | { type: 'OPEN_PROJECT' }
+  | { type: 'SHOW_LIBRARY' }
+  | { type: 'SHOW_QUEUE' }
+  | { type: 'SHOW_USAGE' }
+  | { type: 'RESET' };
+
+export const INITIAL_PHASE: AppPhase = { name: 'idle' };
+
+export const isRunning = (phase: AppPhase): phase is RunPhase => 'runId' in phase;
+
+// Which run steps each event may move on from. Anything else is ignored.
+const RUN_TRANSITIONS: Partial<Record<AppEvent['type'], RunPhase['name'][]>> = {
+  CACHED: ['hashing'],
+  OVER_BUDGET: ['hashing'],
+  UPLOAD: ['hashing'],
+  UPLOAD_PROGRESS: ['uploading'],
+  ANALYZE: ['hashing', 'uploading'],
+  PARTIAL: ['analyzing'],
+  RETRY: ['analyzing', 'thumbnail'],
+  THUMBNAIL: ['analyzing'],
+  FINISH: ['analyzing', 'thumbnail'],
+  FAIL: ['hashing', 'uploading', 'analyzing', 'thumbnail']
+};
+
+export const appReducer = (phase: AppPhase, event: AppEvent): AppPhase => {
+  switch (event.type) {
+    case 'START':
+      return { name: 'hashing', runId: event.runId, fileName: event.fileName };
+    case 'CANCEL':
+      return isRunning(phase) ? { name: 'idle' } : phase;
+    case 'OPEN_PROJECT':
+      return { name: 'completed' };
+    case 'SHOW_LIBRARY':
+      return { name: 'library' };
+    case 'SHOW_QUEUE':
+      return { name: 'queue' };
+    case 'SHOW_USAGE':
+      return { name: 'usage' };
+    case 'RESET':
+      return INITIAL_PHASE;
+  }
+
+  if (!isRunning(phase) || phase.runId !== event.runId || !RUN_TRANSITIONS[event.type]?.includes(phase.name)) return phase;
+  const { runId, fileName } = phase;
+  switch (event.type) {
+    case 'CACHED':
+      return { name: 'cachedMatch', match: event.match };
+    case 'OVER_BUDGET':
+      return { name: 'overBudget', check: event.check };
+    case 'UPLOAD':
+      return { name: 'uploading', runId, fileName, progress: null };
+    case 'UPLOAD_PROGRESS':
+      return { ...phase, progress: event.progress } as RunPhase;
+    case 'ANALYZE':
+      return { name: 'analyzing', runId, fileName, partial: {}, retry: null };
+    case 'PARTIAL':
+      return { ...phase, partial: event.partial, retry: null } as RunPhase;
+    case 'RETRY':
+      // A retried stream starts over, so what it had shown so far is discarded.
+      return phase.name === 'analyzing' ? { ...phase, partial: {}, retry: event.retry } : { ...phase, retry: event.retry } as RunPhase;
+    case 'THUMBNAIL':
+      return { name: 'thumbnail', runId, fileName, retry: null };
+    case 'FINISH':
+      return { name: 'completed' };
+    case 'FAIL':
+      return { name: 'error', error: event.error, canResume: !!event.canResume };
+  }
+};
@@ -0,0 +1,38 @@
+import { BrandPreset } from "../types";
+import { createProjectId } from "./library";
+
+// Presets are small, so they live in localStorage rather than the IndexedDB library.
+const STORAGE_KEY = "vidigenius.brandPresets";
+
+export const loadBrandPresets = (): BrandPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeBrandPresets = (presets: BrandPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.error("Failed to save brand presets", err);
+  }
+};
+
+export const saveBrandPreset = (preset: Omit<BrandPreset, 'id'> & { id?: string }): BrandPreset[] => {
+  const presets = loadBrandPresets();
+  const saved: BrandPreset = { ...preset, id: preset.id || createProjectId() };
+  const next = presets.some(p => p.id === saved.id)
+    ? presets.map(p => p.id === saved.id ? saved : p)
+    : [...presets, saved];
+  storeBrandPresets(next);
+  return next;
+};
+
+export const deleteBrandPreset = (id: string): BrandPreset[] => {
+  const next = loadBrandPresets().filter(p => p.id !== id);
+  storeBrandPresets(next);
+  return next;
+};
@@ -0,0 +1,88 @@
+import { GeneratedThumbnail, Highlight, TranscriptSegment } from "../types";
+import { isAbortError, readableError } from "./errors";
+import { ThumbnailReference } from "./pipeline";
+import { dataUrlExtension, dataUrlToBytes } from "./projectBundle";
+import { buildCaptionFile } from "../utils/captions";
+import { ClipRecording, recordVerticalClip } from "../utils/clipRecorder";
+import { toFileSlug } from "../utils/download";
+import { captureFrame, cropFrameToAspect } from "../utils/frames";
+import { clipSegments, highlightPost } from "../utils/highlights";
+import { createZip, ZipEntry } from "../utils/zip";
+
+export interface ClipExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void; // recording progress; the cover is generated alongside
+  // Generates the 9:16 cover from the clip's opening frame. `signal` aborts it with the export.
+  createCover: (highlight: Highlight, reference: ThumbnailReference, signal: AbortSignal) => Promise<GeneratedThumbnail>;
+}
+
+export interface ClipExport {
+  zip: Blob;
+  fileName: string;
+  cover?: GeneratedThumbnail; // only set once it is in the ZIP, so callers can keep it
+  coverError?: string; // the clip was exported without a cover
+}
+
+// A little way in, past the cut itself, so the reference frame is not mid-transition.
+const coverFrameTime = (highlight: Highlight) => highlight.start + Math.min(1, (highlight.end - highlight.start) / 4);
+
+// One ZIP per clip: the vertical video, captions re-timed to the clip, the cover and the upload copy.
+// The cover is generated while the clip records; a failed cover does not cost the recording, but a
+// cancelled or failed recording aborts the cover so no image is paid for an export that never happens.
+export const exportHighlightClip = async (file: File, highlight: Highlight, segments: TranscriptSegment[], projectName: string, options: ClipExportOptions): Promise<ClipExport> => {
+  const coverController = new AbortController();
+  const abortCover = () => coverController.abort();
+  options.signal?.addEventListener("abort", abortCover, { once: true });
+  try {
+    return await buildClipExport(file, highlight, segments, projectName, options, coverController);
+  } finally {
+    options.signal?.removeEventListener("abort", abortCover);
+  }
+};
+
+const buildClipExport = async (file: File, highlight: Highlight, segments: TranscriptSegment[], projectName: string, options: ClipExportOptions, coverController: AbortController): Promise<ClipExport> => {
+  const cover = (async () => {
+    const frame = await captureFrame(file, coverFrameTime(highlight));
+    const url = await cropFrameToAspect(frame, "9:16");
+    coverController.signal.throwIfAborted();
+    return options.createCover(highlight, { url, time: frame.time }, coverController.signal);
+  })();
+  // Settled up front so a cover failure during a long recording is not reported as unhandled.
+  const settledCover = cover.then(thumb => ({ thumb }), (err: unknown) => ({ err }));
+
+  let recording: ClipRecording;
+  try {
+    recording = await recordVerticalClip(file, { start: highlight.start, end: highlight.end, signal: options.signal, onProgress: options.onProgress });
+  } catch (err) {
+    coverController.abort();
+    throw err;
+  }
+  const coverResult = await settledCover;
+  // Cancelled while the cover was still being generated.
+  options.signal?.throwIfAborted();
+  if ("err" in coverResult && isAbortError(coverResult.err)) throw coverResult.err;
+
+  const base = `${toFileSlug(projectName)}-short-${highlight.rank}`;
+  const encoder = new TextEncoder();
+  const captions = clipSegments(segments, highlight.start, highlight.end);
+  const entries: ZipEntry[] = [
+    { path: `${base}.${recording.extension}`, data: new Uint8Array(await recording.blob.arrayBuffer()) },
+    { path: `${base}.txt`, data: encoder.encode(highlightPost(highlight)) }
+  ];
+  if (captions.length > 0) {
+    entries.push(
+      { path: `${base}.srt`, data: encoder.encode(buildCaptionFile(captions, "srt").content) },
+      { path: `${base}.vtt`, data: encoder.encode(buildCaptionFile(captions, "vtt").content) }
+    );
+  }
+  if ("thumb" in coverResult) {
+    entries.push({ path: `${base}-cover.${dataUrlExtension(coverResult.thumb.url)}`, data: dataUrlToBytes(coverResult.thumb.url) });
+  }
+
+  return {
+    zip: createZip(entries),
+    fileName: `${base}.zip`,
+    cover: "thumb" in coverResult ? coverResult.thumb : undefined,
+    coverError: "err" in coverResult ? readableError(coverResult.err) : undefined
+  };
+};
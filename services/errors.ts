@@ -0,0 +1,81 @@
+import { ApiError } from "@google/genai";
+import { UploadError } from "./upload";
+
+export type AnalysisErrorCode =
+  | 'MALFORMED_RESPONSE'
+  | 'INCOMPLETE_RESPONSE'
+  | 'BLOCKED'
+  | 'RATE_LIMITED'
+  | 'UNAVAILABLE'
+  | 'AUTH'
+  | 'BAD_REQUEST'
+  | 'NETWORK'
+  | 'UPLOAD'
+  | 'CANCELLED'
+  | 'BUDGET'
+  | 'UNKNOWN';
+
+// Error surfaced to the UI. `message` is always safe to show to the user;
+// `details` keeps the raw upstream text for the console.
+export class AnalysisError extends Error {
+  constructor(public readonly code: AnalysisErrorCode, message: string, public readonly details?: string) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+const ERROR_TITLES: Record<AnalysisErrorCode, string> = {
+  MALFORMED_RESPONSE: "Unreadable AI Response",
+  INCOMPLETE_RESPONSE: "Incomplete AI Response",
+  BLOCKED: "Content Blocked",
+  RATE_LIMITED: "Rate Limit Reached",
+  UNAVAILABLE: "Service Unavailable",
+  AUTH: "API Key Problem",
+  BAD_REQUEST: "Request Rejected",
+  NETWORK: "Connection Problem",
+  UPLOAD: "Upload Interrupted",
+  CANCELLED: "Analysis Cancelled",
+  BUDGET: "Monthly Budget Reached",
+  UNKNOWN: "Analysis Halted"
+};
+
+export const errorTitle = (code: AnalysisErrorCode) => ERROR_TITLES[code];
+
+// The API sometimes puts its JSON error body in `message`; pull the human part out.
+const upstreamMessage = (raw: string) => {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed.error?.message || raw;
+  } catch {
+    return raw;
+  }
+};
+
+const fromStatus = (status: number, detail: string): AnalysisError => {
+  if (status === 429) return new AnalysisError('RATE_LIMITED', "Too many requests right now. Wait a minute and try again.", detail);
+  if (status === 401 || status === 403) return new AnalysisError('AUTH', "The API key is missing, invalid or not allowed to use this model.", detail);
+  if (status >= 500) return new AnalysisError('UNAVAILABLE', "The AI service is temporarily unavailable. Please try again shortly.", detail);
+  return new AnalysisError('BAD_REQUEST', upstreamMessage(detail), detail);
+};
+
+// Aborted fetches, uploads and SDK calls all reject with a DOMException named AbortError.
+export const isAbortError = (err: unknown) => (err as { name?: string } | null)?.name === 'AbortError';
+
+export const toAnalysisError = (err: unknown): AnalysisError => {
+  if (err instanceof AnalysisError) return err;
+  if (isAbortError(err)) return new AnalysisError('CANCELLED', "The analysis was cancelled.");
+  if (err instanceof UploadError) return new AnalysisError('UPLOAD', err.message);
+  if (err instanceof ApiError) return fromStatus(err.status, err.message);
+
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  if (err instanceof TypeError && /fetch|network/i.test(message)) {
+    return new AnalysisError('NETWORK', "Could not reach the AI service. Check your connection and try again.", message);
+  }
+  try {
+    const parsed = JSON.parse(message);
+    if (typeof parsed.error?.code === 'number') return fromStatus(parsed.error.code, message);
+  } catch {}
+  return new AnalysisError('UNKNOWN', upstreamMessage(message) || 'Unknown error occurred', message);
+};
+
+export const readableError = (err: unknown): string => toAnalysisError(err).message;
@@ -0,0 +1,86 @@
+import { PlatformId, VideoAnalysis } from "../types";
+
+// Copy for every platform profile; the mock provider returns the ones that were requested.
+export const MOCK_DESCRIPTIONS: Record<PlatformId, string> = {
+  youtube: "Edit a full YouTube video in under 30 minutes with this simple 3-step workflow.\n\n" +
+    "00:00 Intro\n00:08 Cutting dead air\n00:11 B-roll on every visual line\n00:16 One-LUT color grade and export\n\n" +
+    "#videoediting #youtubetips #creator",
+  shorts: "Full edit in 30 minutes? Here's the 3-step workflow. #shorts #videoediting #youtubetips",
+  instagram: "30 minutes. One full video. Three steps. Save this for your next edit. ✂️🎬\n\n#videoediting #reels #creatortips #editingworkflow",
+  tiktok: "POV: your edit takes 30 minutes, not 3 hours ⏱️ #editing #creatortok #videoediting",
+  x: "I edit full YouTube videos in under 30 minutes. Cut dead air, B-roll every visual line, one LUT. That's it. #videoediting",
+  linkedin: "Most creators lose hours in the edit.\n\nMy workflow is three steps: cut dead air, add B-roll to every visual line, grade with a single LUT.\n\n" +
+    "The result: a full video in under 30 minutes.\n\n#contentcreation #productivity #videoediting",
+  facebook: "How long does your editing take? I got mine down to 30 minutes with three simple steps. Full breakdown in the video 👇"
+};
+
+// Canned analysis served by the mock provider. Keep it realistic enough to exercise
+// every section of the results view (multiple speakers, all five title ranks, sources).
+export const MOCK_ANALYSIS: VideoAnalysis = {
+  transcription: "Hey everyone, welcome back to the channel! Today I'm showing you how I edit a full YouTube video in under 30 minutes. " +
+    "First, we cut the dead air. Then we add B-roll on every sentence that mentions a visual. " +
+    "Finally, we color grade with one LUT and export. Let's get into it.",
+  segments: [
+    { start: 0, end: 3.2, speaker: "Speaker 1", text: "Hey everyone, welcome back to the channel!" },
+    { start: 3.2, end: 8.5, speaker: "Speaker 1", text: "Today I'm showing you how I edit a full YouTube video in under 30 minutes." },
+    { start: 8.5, end: 11, speaker: "Speaker 1", text: "First, we cut the dead air." },
+    { start: 11, end: 16.4, speaker: "Speaker 1", text: "Then we add B-roll on every sentence that mentions a visual." },
+    { start: 16.4, end: 20.8, speaker: "Speaker 1", text: "Finally, we color grade with one LUT and export." },
+    { start: 20.8, end: 22.5, speaker: "Speaker 2", text: "Let's get into it." }
+  ],
+  // The fixture clip is far shorter than YouTube's 30-second chapter minimum, so mock mode shows the length warning.
+  chapters: [
+    { start: 0, title: "Intro" },
+    { start: 8, title: "Cutting dead air" },
+    { start: 11, title: "B-roll on every visual line" },
+    { start: 16, title: "One-LUT color grade and export" }
+  ],
+  highlights: [
+    {
+      start: 3.2, end: 16.4, rank: 1,
+      hook: "Today I'm showing you how I edit a full YouTube video in under 30 minutes.",
+      reason: "A concrete time promise in the first second, paid off by two fast steps.",
+      title: "Edit a Full Video in 30 Minutes"
+    },
+    {
+      start: 8.5, end: 22.5, rank: 2,
+      hook: "First, we cut the dead air.",
+      reason: "Three quick numbered steps make an easy, rewatchable checklist.",
+      title: "3 Steps to Faster Edits"
+    },
+    {
+      start: 16.4, end: 22.5, rank: 3,
+      hook: "Finally, we color grade with one LUT and export.",
+      reason: "A surprisingly simple answer to a topic people overthink.",
+      title: "Color Grade With One LUT"
+    }
+  ],
+  trendingKeywords: ["video editing workflow", "fast youtube editing", "b-roll tips", "color grading LUT", "editing for beginners"],
+  sources: [
+    { title: "YouTube Creator Academy: Editing basics", uri: "https://www.youtube.com/creators/" },
+    { title: "Google Trends: video editing", uri: "https://trends.google.com/trends/explore?q=video%20editing" }
+  ],
+  keywordSupport: [
+    { keyword: "video editing workflow", sources: [0, 1] },
+    { keyword: "fast youtube editing", sources: [1] },
+    { keyword: "b-roll tips", sources: [0] },
+    { keyword: "color grading LUT", sources: [] },
+    { keyword: "editing for beginners", sources: [0] }
+  ],
+  searchQueries: ["youtube video editing trends", "fast editing workflow creators"],
+  titles: [
+    { text: "I Edit Full YouTube Videos in 30 Minutes (Here's How)", rank: 1, reasoning: "Specific time promise plus a curiosity gap." },
+    { text: "The 3-Step Editing Workflow Every Creator Needs", rank: 2, reasoning: "Numbered list with broad creator appeal." },
+    { text: "Stop Wasting Hours Editing Your Videos", rank: 3, reasoning: "Pain-point framing, strong for returning viewers." },
+    { text: "Fast YouTube Editing: Cuts, B-Roll and One LUT", rank: 4, reasoning: "Keyword-rich but less emotional." },
+    { text: "My Editing Process, Explained", rank: 5, reasoning: "Clear but low urgency." }
+  ],
+  descriptions: {
+    youtube: MOCK_DESCRIPTIONS.youtube,
+    instagram: MOCK_DESCRIPTIONS.instagram
+  },
+  thumbnailConcept: {
+    idea: "Creator pointing at a giant stopwatch reading 30:00 with a timeline exploding behind them.",
+    prompt: "A surprised content creator pointing at a huge glowing stopwatch showing 30:00, editing timeline shattering into pieces behind, teal and orange lighting"
+  }
+};
@@ -1,103 +1,491 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { VideoAnalysis } from "../types";
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { ChannelProfile, EditableSection, PlatformId, ThumbnailAspectRatio, VideoAnalysis, VideoSource } from "../types";
+import { AnalysisError, isAbortError } from "./errors";
+import { extractGrounding } from "./grounding";
+import { ANALYSIS_MODEL, THUMBNAIL_MODEL } from "./models";
+import { DEFAULT_PLATFORMS, describeLimits, getPlatform, platformsOf, titleLimitsFor, trimToLimits } from "./platforms";
+import { AIProvider, AnalyzeOptions, RequestOptions } from "./provider";
+import { withRetry } from "./retry";
+import { UsageOperation } from "./usage";
+import { uploadVideoFile } from "./upload";
+import { AnalysisSection, assertComplete, isObject, REQUIRED_SECTIONS, parseModelJson, previewAnalysis, readModelJson, validateAnalysis, ValidationResult } from "./validation";
+import { formatClock } from "../utils/captions";
+import { checkChapters, insertChaptersWithin, MIN_CHAPTER_SECONDS, MIN_CHAPTERS, transcriptDuration } from "../utils/chapters";
+import { MAX_HIGHLIGHT_SECONDS, MAX_HIGHLIGHTS, MIN_HIGHLIGHT_SECONDS } from "../utils/highlights";
+import { localeLabel } from "../utils/locales";
 
-export const analyzeVideo = async (videoBase64: string, mimeType: string): Promise<VideoAnalysis> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The key is only ever read server-side (the proxy in server/, or Node scripts). Browser builds
+// have no `process` and no key, and talk to the API through the proxy provider instead.
+const apiKey = () => typeof process === 'undefined' ? undefined : process.env.GEMINI_API_KEY || process.env.API_KEY;
+
+const getClient = () => new GoogleGenAI({ apiKey: apiKey() });
+
+const videoPart = (video: VideoSource) => video.kind === 'file'
+  ? { fileData: { fileUri: video.uri, mimeType: video.mimeType } }
+  : { inlineData: { data: video.data, mimeType: video.mimeType } };
+
+// How many follow-up requests may be spent re-asking for missing or invalid sections.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Each preview re-parses the whole text so far, so previews are spaced out instead of sent per chunk.
+const PREVIEW_INTERVAL_MS = 250;
+
+const ALL_SECTIONS: AnalysisSection[] = ['transcription', 'segments', 'chapters', 'highlights', 'trendingKeywords', 'titles', 'descriptions', 'thumbnailConcept'];
+
+// `descriptions` depends on the requested platforms, see descriptionsSchema.
+const ANALYSIS_PROPERTIES: Record<Exclude<AnalysisSection, 'descriptions'>, Schema> = {
+  transcription: { type: Type.STRING },
+  segments: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        start: { type: Type.NUMBER },
+        end: { type: Type.NUMBER },
+        speaker: { type: Type.STRING },
+        text: { type: Type.STRING }
+      },
+      required: ["start", "end", "text"]
+    }
+  },
+  chapters: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        start: { type: Type.NUMBER },
+        title: { type: Type.STRING }
+      },
+      required: ["start", "title"]
+    }
+  },
+  highlights: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        start: { type: Type.NUMBER },
+        end: { type: Type.NUMBER },
+        rank: { type: Type.NUMBER },
+        hook: { type: Type.STRING },
+        reason: { type: Type.STRING },
+        title: { type: Type.STRING }
+      },
+      required: ["start", "end", "rank", "hook", "reason", "title"]
+    }
+  },
+  trendingKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+  titles: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING },
+        rank: { type: Type.NUMBER },
+        reasoning: { type: Type.STRING }
+      },
+      required: ["text", "rank"]
+    }
+  },
+  thumbnailConcept: {
+    type: Type.OBJECT,
+    properties: {
+      idea: { type: Type.STRING },
+      prompt: { type: Type.STRING }
+    },
+    required: ["idea", "prompt"]
+  }
+};
+
+const descriptionsSchema = (platforms: PlatformId[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(platforms.map(id => [id, { type: Type.STRING }])),
+  required: platforms
+});
+
+const schemaFor = (sections: AnalysisSection[], platforms: PlatformId[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(sections.map(section => [
+    section,
+    section === 'descriptions' ? descriptionsSchema(platforms) : ANALYSIS_PROPERTIES[section]
+  ])),
+  required: sections
+});
+
+const platformInstructions = (platforms: PlatformId[]) => platforms
+  .map(id => `       - ${id}: ${getPlatform(id).instructions} (${describeLimits(getPlatform(id).limits)})`)
+  .join('\n');
+
+const titleInstructions = (platforms: PlatformId[]) => {
+  const limits = titleLimitsFor(platforms);
+  return limits ? ` Each title must be at most ${limits.maxChars} characters, ideally under ${limits.recommendedChars || limits.maxChars}.` : '';
+};
+
+// The channel's brand voice, placed ahead of the task so it colours every section. Empty without a profile.
+const profileInstructions = (profile?: ChannelProfile) => {
+  if (!profile) return '';
+  const lines = [
+    `CHANNEL VOICE ("${profile.name}"): write every title and every piece of copy for this channel.`,
+    profile.tone.trim() ? `- Tone: ${profile.tone.trim()}` : '',
+    profile.nicheKeywords.length ? `- Niche keywords to work in where they fit naturally: ${profile.nicheKeywords.join(', ')}` : '',
+    profile.exampleTitles.length ? `- Past titles that worked; match their style, do not copy them:\n${profile.exampleTitles.map(t => `  * ${t}`).join('\n')}` : '',
+    profile.bannedWords.length ? `- Never use these words: ${profile.bannedWords.join(', ')}` : '',
+    profile.requiredHashtags.length ? `- Every platform post must include: ${profile.requiredHashtags.join(' ')}` : '',
+    profile.ctaLinks.length ? `- Calls to action point to: ${profile.ctaLinks.join(', ')}` : '',
+    profile.thumbnailStyle.trim() ? `- Thumbnail style: ${profile.thumbnailStyle.trim()}` : ''
+  ];
+  return lines.filter(Boolean).join('\n');
+};
+
+const SECTION_INSTRUCTIONS: Record<Exclude<AnalysisSection, 'descriptions'>, string> = {
+  transcription: "transcription: a detailed, word-for-word transcription from 00:00 to the very end.",
+  segments: "segments: the transcription split into ordered, non-overlapping caption segments (max ~7 seconds) with start/end in seconds and a speaker label.",
+  chapters: `chapters: YouTube chapters with start in seconds and a short title. The first starts at 0, at least ${MIN_CHAPTERS} chapters, each at least ${MIN_CHAPTER_SECONDS} seconds long, placed at real topic changes.`,
+  highlights: `highlights: up to ${MAX_HIGHLIGHTS} self-contained moments that work as vertical Shorts on their own, ${MIN_HIGHLIGHT_SECONDS}-${MAX_HIGHLIGHT_SECONDS} seconds each, ranked 1 (best) by viral potential, with start/end in seconds, the hook line the clip opens on, a one-sentence reason it will perform and a punchy vertical title (at most 100 characters, ideally under 40).`,
+  trendingKeywords: "trendingKeywords: viral keywords and SEO topics for this content.",
+  titles: "titles: exactly 5 distinct high-CTR title options ranked 1 (best) to 5, each with short reasoning.",
+  thumbnailConcept: "thumbnailConcept: a cinematic thumbnail idea and a detailed image prompt."
+};
+
+// Reports what a finished call was billed for. Image parts in the reply are counted as generated images.
+const reportUsage = (response: GenerateContentResponse, model: string, operation: UsageOperation, options: RequestOptions) => {
+  const usage = response.usageMetadata;
+  options.onUsage?.({
+    operation,
+    model,
+    inputTokens: usage?.promptTokenCount || 0,
+    outputTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    images: (response.candidates?.[0]?.content?.parts || []).filter(part => part.inlineData).length
+  });
+};
+
+// Every model call retries rate-limit and server errors with backoff and stops when `signal` aborts.
+const generate = async (ai: GoogleGenAI, params: GenerateContentParameters, operation: UsageOperation, options: RequestOptions = {}) => {
+  const response = await withRetry(() => ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: options.signal } }), options);
+  reportUsage(response, params.model, operation, options);
+  return response;
+};
+
+// Streams the response and reports a preview at most every PREVIEW_INTERVAL_MS. A stream that fails
+// part-way is restarted from scratch by the retry, so previews simply start over. Grounding metadata
+// arrives on a late chunk, so that chunk is kept alongside the last one (which holds the finish reason).
+// Usage is reported from the last chunk that carried it, also when the stream fails or is cancelled.
+const generateStreamed = (ai: GoogleGenAI, params: GenerateContentParameters, options: AnalyzeOptions) => withRetry(async () => {
+  let text = '';
+  let last: GenerateContentResponse | undefined;
+  let grounded: GenerateContentResponse | undefined;
+  let metered: GenerateContentResponse | undefined;
+  let previewedAt = 0;
+  let previewPending = false;
+  const preview = () => {
+    previewedAt = Date.now();
+    previewPending = false;
+    const partial = previewAnalysis(text);
+    if (partial) options.onPartial?.(partial);
+  };
+  try {
+    const stream = await ai.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: options.signal } });
+    for await (const chunk of stream) {
+      last = chunk;
+      if (chunk.usageMetadata) metered = chunk;
+      if (chunk.candidates?.[0]?.groundingMetadata) grounded = chunk;
+      const piece = chunk.text;
+      if (!piece) continue;
+      text += piece;
+      previewPending = true;
+      if (Date.now() - previewedAt >= PREVIEW_INTERVAL_MS) preview();
+    }
+    if (previewPending) preview();
+    if (!last) throw new AnalysisError('MALFORMED_RESPONSE', "The AI returned an empty response. Please try again.");
+    return { text, last, grounded: grounded || last };
+  } finally {
+    if (metered) reportUsage(metered, params.model, 'analysis', options);
+  }
+}, options);
+
+// Blocked or cut-off candidates are reported explicitly instead of failing later in JSON.parse.
+const checkFinish = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && finishReason !== FinishReason.STOP && finishReason !== FinishReason.MAX_TOKENS)) {
+    throw new AnalysisError('BLOCKED', "The AI declined to analyze this video. Try a different clip.", String(blockReason || finishReason));
+  }
+};
+
+// A response cut off at the token limit still parses once repaired, but the transcript it carries
+// ends early. The transcript sections are then marked invalid so the repair loop asks for them again.
+const TRUNCATABLE_SECTIONS: AnalysisSection[] = ['transcription', 'segments'];
+
+const wasTruncated = (response: GenerateContentResponse, repaired: boolean) =>
+  repaired || response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS;
+
+const flagTruncated = (result: ValidationResult, truncated: boolean, requested: AnalysisSection[]): ValidationResult => {
+  if (!truncated) return result;
+  const cut = TRUNCATABLE_SECTIONS.filter(section => requested.includes(section) && !result.invalid.includes(section));
+  return { ...result, invalid: [...result.invalid, ...cut] };
+};
+
+// Re-asks only for the sections that failed validation. When the transcript survived, the
+// follow-up is text-only and reuses it instead of sending the video again.
+const requestSections = async (ai: GoogleGenAI, video: VideoSource, partial: VideoAnalysis, sections: AnalysisSection[], platforms: PlatformId[], options: AnalyzeOptions = {}) => {
+  const useTranscript = !sections.includes('transcription') && !sections.includes('segments') && partial.transcription;
+  // Chapters and highlights need timing, so the follow-up then carries the timed captions instead of plain text.
+  const transcript = (sections.includes('chapters') || sections.includes('highlights')) && partial.segments.length > 0
+    ? partial.segments.map(s => `[${formatClock(s.start)}] ${s.text}`).join('\n')
+    : partial.transcription;
+  const instructions = sections.map(section => section === 'descriptions'
+    ? `- descriptions: one entry per platform:\n${platformInstructions(platforms)}`
+    : `- ${SECTION_INSTRUCTIONS[section]}${section === 'titles' ? titleInstructions(platforms) : ''}`
+  ).join('\n');
+  const voice = profileInstructions(options.profile);
+  const request = useTranscript
+    ? `Here is the transcript of a video:\n"""${transcript}"""\n\nBased on it, return ONLY these JSON fields:\n${instructions}`
+    : `Watch this entire video from 00:00 and return ONLY these JSON fields:\n${instructions}`;
+  const prompt = voice ? `${request}\n\n${voice}` : request;
+
+  const response = await generate(ai, {
+    model: ANALYSIS_MODEL,
+    contents: [{ parts: useTranscript ? [{ text: prompt }] : [videoPart(video), { text: prompt }] }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schemaFor(sections, platforms)
+    }
+  }, 'repair', options);
+  checkFinish(response);
+  const { data, repaired } = readModelJson(response.text);
+  return { data, truncated: wasTruncated(response, repaired) };
+};
+
+// The model's free-text timestamps are replaced with the validated chapter list.
+const withChapterList = (analysis: VideoAnalysis): VideoAnalysis => {
+  const chapters = analysis.chapters || [];
+  const youtube = analysis.descriptions.youtube;
+  if (!youtube || checkChapters(chapters, transcriptDuration(analysis.segments)).length > 0) return analysis;
+  return { ...analysis, descriptions: { ...analysis.descriptions, youtube: insertChaptersWithin(youtube, chapters, getPlatform('youtube').limits) } };
+};
+
+export const analyzeVideo = async (video: VideoSource, options: AnalyzeOptions = {}): Promise<VideoAnalysis> => {
+  const ai = getClient();
+  const platforms = options.platforms?.length ? options.platforms : DEFAULT_PLATFORMS;
+  const voice = profileInstructions(options.profile);
   
   const prompt = `
     VIDEO ANALYSIS MISSION:
     Watch this entire video from the ABSOLUTE BEGINNING (Timestamp 00:00:00). 
-    
+    ${voice ? `\n${voice}\n` : ''}
     1. EXHAUSTIVE TRANSCRIPTION: Provide a detailed, word-for-word transcription. 
        CRITICAL: Capture the absolute start. Do not skip initial greetings, hooks, or logos. Transcribe from 0 seconds to the very end.
-    2. TREND RESEARCH: Identify viral keywords and SEO topics related to this content.
-    3. VIRAL TITLES: Generate 5 high-CTR title options. Rank them 1 to 5.
-    4. YOUTUBE DESCRIPTION: Create a high-converting description with timestamps and keywords.
-    5. SOCIAL CAPTIONS: Write a catchy Instagram/TikTok caption with hashtags.
-    6. THUMBNAIL CONCEPT: Suggest a cinematic thumbnail idea and provide a detailed image prompt.
+       Also split the transcription into caption-sized segments (max ~2 lines / 7 seconds each) with start and end times in seconds
+       and a speaker label (e.g. "Speaker 1"). Segments must be in order and must not overlap.
+    2. CHAPTERS: Mark YouTube chapters (start in seconds, short title) at real topic changes. The first chapter starts at 0,
+       there are at least ${MIN_CHAPTERS}, and each one lasts at least ${MIN_CHAPTER_SECONDS} seconds. Skip chapters for very short videos.
+    3. TREND RESEARCH: Use Google Search to find what is currently trending for this topic. Return the keywords and SEO topics
+       that your search results actually support, and mention each keyword together with what the search showed.
+    4. VIRAL TITLES: Generate 5 high-CTR title options. Rank them 1 to 5.${titleInstructions(platforms)}
+    5. PLATFORM COPY: In "descriptions", write one entry per platform, respecting each platform's limits:
+${platformInstructions(platforms)}
+    6. THUMBNAIL CONCEPT: Suggest a cinematic thumbnail idea and provide a detailed image prompt${options.profile?.thumbnailStyle.trim() ? ' in the channel\'s thumbnail style' : ''}.
+    7. SHORTS HIGHLIGHTS: Find up to ${MAX_HIGHLIGHTS} moments that stand on their own as vertical Shorts (${MIN_HIGHLIGHT_SECONDS}-${MAX_HIGHLIGHT_SECONDS} seconds,
+       starting on a strong line, ending on a payoff). Rank them 1 (best) by viral potential. For each give start and end in seconds,
+       the hook line the clip opens on, a one-sentence reason it will perform, and a punchy vertical title (ideally under 40 characters).
     
     Return the result strictly as JSON.
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
+  const streamed = await generateStreamed(ai, {
+    model: ANALYSIS_MODEL,
     contents: [
       {
         parts: [
-          { inlineData: { data: videoBase64, mimeType } },
+          videoPart(video),
           { text: prompt }
         ]
       }
     ],
     config: {
       // Flash models are highly capable and usually avoid permission blocks in this environment
+      tools: [{ googleSearch: {} }],
       responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          transcription: { type: Type.STRING },
-          trendingKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-          sources: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING },
-                uri: { type: Type.STRING }
-              }
-            }
-          },
-          titles: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                text: { type: Type.STRING },
-                rank: { type: Type.NUMBER },
-                reasoning: { type: Type.STRING }
-              }
-            }
-          },
-          descriptions: {
-            type: Type.OBJECT,
-            properties: {
-              youtube: { type: Type.STRING },
-              instagram: { type: Type.STRING }
-            }
-          },
-          thumbnailConcept: {
-            type: Type.OBJECT,
-            properties: {
-              idea: { type: Type.STRING },
-              prompt: { type: Type.STRING }
-            }
-          }
-        },
-        required: ["transcription", "trendingKeywords", "titles", "descriptions", "thumbnailConcept"]
-      }
+      responseSchema: schemaFor(ALL_SECTIONS, platforms)
     }
-  });
+  }, options);
+  checkFinish(streamed.last);
+
+  // An unreadable first response is treated as "everything missing" so the repair loop can still recover it.
+  let parseError: unknown = null;
+  let raw: unknown = {};
+  let repaired = false;
+  try {
+    ({ data: raw, repaired } = readModelJson(streamed.text));
+  } catch (err) {
+    parseError = err;
+  }
 
-  return JSON.parse(response.text);
+  let result = flagTruncated(validateAnalysis(raw, {}, platforms), wasTruncated(streamed.last, repaired), ALL_SECTIONS);
+  let repairError: unknown = null;
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && result.invalid.length > 0; attempt++) {
+    try {
+      const requested = result.invalid;
+      const patch = await requestSections(ai, video, result.analysis, requested, platforms, options);
+      result = flagTruncated(validateAnalysis(patch.data, result.analysis, platforms), patch.truncated, requested);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      repairError = err;
+    }
+  }
+
+  if (parseError && result.invalid.length > 0) throw parseError;
+  // When a required section is still missing, the failed repair request is the more useful error to show.
+  if (repairError && result.invalid.some(section => REQUIRED_SECTIONS.includes(section))) throw repairError;
+  const analysis = withChapterList(assertComplete(result));
+  // Sources come only from grounding metadata so every link shown was actually retrieved.
+  return { ...analysis, ...extractGrounding(streamed.grounded, analysis.trendingKeywords) };
 };
 
-export const generateThumbnail = async (prompt: string, aspectRatio: "16:9" | "9:16" = "16:9"): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  // Using gemini-2.5-flash-image which does not require the mandatory paid project selection dialog
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [{ text: `A high-impact, cinematic viral YouTube thumbnail. 4K, vivid colors, professional lighting. Subject: ${prompt}` }]
-    },
+const regenerateInstructions = (analysis: VideoAnalysis, section: EditableSection) => section === 'titles'
+  ? `Write 5 new, distinct high-CTR title options ranked 1 (best) to 5, each with short reasoning.${titleInstructions(platformsOf(analysis))}`
+  : `Write ${getPlatform(section).instructions}. Limits: ${describeLimits(getPlatform(section).limits)}.`;
+
+export const regenerateSection = async (analysis: VideoAnalysis, section: EditableSection, guidance = '', profile?: ChannelProfile, options: RequestOptions = {}): Promise<VideoAnalysis> => {
+  const ai = getClient();
+  const current = section === 'titles'
+    ? analysis.titles.map(t => `- ${t.text}`).join('\n')
+    : analysis.descriptions[section];
+  const prompt = [
+    `Here is the transcript of a video:\n"""${analysis.transcription}"""`,
+    `Trending keywords: ${analysis.trendingKeywords.join(', ')}`,
+    current ? `Current version (do not repeat it):\n${current}` : '',
+    regenerateInstructions(analysis, section),
+    profileInstructions(profile),
+    analysis.locale ? `Write it in ${localeLabel(analysis.locale)} for a native audience.` : '',
+    guidance.trim() ? `Editor guidance, follow it closely: ${guidance.trim()}` : '',
+    'Return the result strictly as JSON.'
+  ].filter(Boolean).join('\n\n');
+
+  const response = await generate(ai, {
+    model: ANALYSIS_MODEL,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: section === 'titles'
+        ? schemaFor(['titles'], [])
+        : { type: Type.OBJECT, properties: { text: { type: Type.STRING } }, required: ["text"] }
+    }
+  }, 'regenerate', options);
+  checkFinish(response);
+  const data = parseModelJson(response.text);
+  const raw = isObject(data) ? data : {};
+
+  if (section === 'titles') {
+    const result = validateAnalysis({ titles: raw.titles }, analysis);
+    if (result.invalid.includes('titles')) {
+      throw new AnalysisError('INCOMPLETE_RESPONSE', "The AI did not return any usable titles. Please try again.");
+    }
+    return result.analysis;
+  }
+  if (typeof raw.text !== 'string' || !raw.text.trim()) {
+    throw new AnalysisError('INCOMPLETE_RESPONSE', "The AI returned an empty description. Please try again.");
+  }
+  const text = trimToLimits(raw.text.trim(), getPlatform(section).limits);
+  return { ...analysis, descriptions: { ...analysis.descriptions, [section]: text } };
+};
+
+const localizeSchema = (platforms: PlatformId[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    transcription: ANALYSIS_PROPERTIES.transcription,
+    segmentTexts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    chapterTitles: { type: Type.ARRAY, items: { type: Type.STRING } },
+    titles: ANALYSIS_PROPERTIES.titles,
+    descriptions: descriptionsSchema(platforms)
+  },
+  required: ["transcription", "segmentTexts", "titles", "descriptions"]
+});
+
+// Text-only: works from the source analysis, never the video. Caption timings are kept from
+// the source and only the cue texts are translated, so localized caption files stay in sync.
+export const localizeAnalysis = async (analysis: VideoAnalysis, locale: string, options: RequestOptions = {}): Promise<VideoAnalysis> => {
+  const ai = getClient();
+  const language = localeLabel(locale);
+  const platforms = platformsOf(analysis);
+  const chapters = analysis.chapters || [];
+  const prompt = [
+    `Localize this video's copy into ${language} for a native ${language}-speaking audience.`,
+    `Adapt idioms, references, humor and calls to action so they feel written for that culture. Do not translate word for word.`,
+    `titles: 5 ranked options written for what that audience searches and clicks. Hashtags: use tags that audience actually follows, not translated English tags.`,
+    `segmentTexts: translate each caption cue below, in order, one entry per cue (${analysis.segments.length} entries), short enough for on-screen captions.`,
+    `Transcript:\n"""${analysis.transcription}"""`,
+    `Caption cues:\n${JSON.stringify(analysis.segments.map(s => s.text))}`,
+    chapters.length
+      ? `chapterTitles: translate each chapter title below, in order (${chapters.length} entries):\n${JSON.stringify(chapters.map(c => c.title))}`
+      : 'chapterTitles: return an empty array.',
+    `Titles:\n${analysis.titles.map(t => `${t.rank}. ${t.text}`).join('\n')}`,
+    ...platforms.map(id => `descriptions.${id} (${describeLimits(getPlatform(id).limits)}):\n"""${analysis.descriptions[id]}"""`),
+    'Return the result strictly as JSON.'
+  ].join('\n\n');
+
+  const response = await generate(ai, {
+    model: ANALYSIS_MODEL,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: localizeSchema(platforms)
+    }
+  }, 'localize', options);
+  checkFinish(response);
+  const data = parseModelJson(response.text);
+  const raw = isObject(data) ? data : {};
+
+  const texts: unknown[] = Array.isArray(raw.segmentTexts) ? raw.segmentTexts : [];
+  if (texts.length !== analysis.segments.length || !texts.every(t => typeof t === 'string' && t.trim())) {
+    throw new AnalysisError('INCOMPLETE_RESPONSE', `The ${language} captions did not line up with the original. Please try again.`);
+  }
+  const segments = analysis.segments.map((segment, idx) => ({ ...segment, text: (texts[idx] as string).trim() }));
+  // Chapter titles are short and optional: if they do not line up, the source titles are kept.
+  const chapterTitles: unknown[] = Array.isArray(raw.chapterTitles) ? raw.chapterTitles : [];
+  const localizedChapters = chapterTitles.length === chapters.length
+    ? chapters.map((chapter, idx) => ({ ...chapter, title: String(chapterTitles[idx] || chapter.title).trim() }))
+    : chapters;
+
+  // Keywords, sources, highlights and the thumbnail concept are carried over from the source analysis. The
+  // localized fields get no fallback so anything left untranslated is reported as missing.
+  const base = { ...analysis, segments, chapters: localizedChapters, transcription: '', titles: [], descriptions: {} };
+  const result = validateAnalysis({ transcription: raw.transcription, titles: raw.titles, descriptions: raw.descriptions }, base, platforms);
+  const missing = result.invalid.filter(section => section === 'transcription' || section === 'titles' || section === 'descriptions');
+  if (missing.length > 0) {
+    throw new AnalysisError('INCOMPLETE_RESPONSE', `The ${language} version is missing ${missing.join(', ')}. Please try again.`);
+  }
+  return { ...result.analysis, locale };
+};
+
+export const generateThumbnail = async (prompt: string, aspectRatio: ThumbnailAspectRatio = "16:9", variant = 0, reference?: string, options: RequestOptions = {}): Promise<string> => {
+  const ai = getClient();
+  // Later variants are nudged away from the first so a batch gives genuinely different candidates.
+  // With a reference frame the person and set must stay recognisable, so only framing and lighting vary.
+  const variation = variant > 0
+    ? reference
+      ? ` Variation ${variant + 1}: use a clearly different crop, pose emphasis and lighting mood.`
+      : ` Variation ${variant + 1}: use a clearly different composition, camera angle and color palette.`
+    : '';
+  const parts: Part[] = [];
+  if (reference) {
+    const [header, data] = reference.split(',');
+    parts.push({ inlineData: { mimeType: header.slice(5).split(';')[0], data } });
+    parts.push({ text: "The attached image is a frame from the creator's video. Keep the same person (face, hair, clothing) and the same set recognisable; do not invent a different presenter or location." });
+  }
+  parts.push({ text: `A high-impact, cinematic viral YouTube thumbnail. 4K, vivid colors, professional lighting. Subject: ${prompt}${variation}` });
+  const response = await generate(ai, {
+    model: THUMBNAIL_MODEL,
+    contents: { parts },
     config: {
       imageConfig: {
         aspectRatio: aspectRatio
       }
     }
-  });
+  }, 'thumbnail', options);
 
-  for (const part of response.candidates[0].content.parts) {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
     if (part.inlineData) {
       return `data:image/png;base64,${part.inlineData.data}`;
     }
@@ -105,3 +493,12 @@ export const generateThumbnail = async (prompt: string, aspectRatio: "16:9" | "9
   
   throw new Error("Thumbnail generation failed. Please try again.");
 };
+
+export const geminiProvider: AIProvider = {
+  id: "gemini",
+  uploadVideo: (file, options) => uploadVideoFile(file, { apiKey: apiKey(), ...options }),
+  analyzeVideo,
+  regenerateSection,
+  localizeAnalysis,
+  generateThumbnail
+};
@@ -0,0 +1,46 @@
+import { GenerateContentResponse } from "@google/genai";
+import { KeywordSupport, VideoAnalysis } from "../types";
+
+export interface GroundingResult {
+  sources: VideoAnalysis['sources'];
+  keywordSupport: KeywordSupport[];
+  searchQueries: string[];
+}
+
+// Builds sources and per-keyword citations from the response's grounding metadata.
+// A keyword counts as grounded when a grounding support segment that mentions it cites at
+// least one web chunk; the model's own claims about sources are ignored.
+export const extractGrounding = (response: GenerateContentResponse, keywords: string[] = []): GroundingResult => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunks = metadata?.groundingChunks || [];
+
+  // Chunks can repeat the same page; collapse them and remember where each chunk landed.
+  const sources: VideoAnalysis['sources'] = [];
+  const chunkToSource = new Map<number, number>();
+  chunks.forEach((chunk, idx) => {
+    const uri = chunk.web?.uri;
+    if (!uri) return;
+    let sourceIdx = sources.findIndex(s => s.uri === uri);
+    if (sourceIdx === -1) {
+      sources.push({ title: chunk.web?.title || chunk.web?.domain || uri, uri });
+      sourceIdx = sources.length - 1;
+    }
+    chunkToSource.set(idx, sourceIdx);
+  });
+
+  const supports = metadata?.groundingSupports || [];
+  const keywordSupport = keywords.map(keyword => {
+    const needle = keyword.toLowerCase();
+    const cited = new Set<number>();
+    for (const support of supports) {
+      if (!support.segment?.text?.toLowerCase().includes(needle)) continue;
+      for (const chunkIdx of support.groundingChunkIndices || []) {
+        const sourceIdx = chunkToSource.get(chunkIdx);
+        if (sourceIdx !== undefined) cited.add(sourceIdx);
+      }
+    }
+    return { keyword, sources: Array.from(cited).sort((a, b) => a - b) };
+  });
+
+  return { sources, keywordSupport, searchQueries: metadata?.webSearchQueries || [] };
+};
@@ -0,0 +1,85 @@
+import { Project } from "../types";
+
+// Local project library backed by IndexedDB. Every completed run is stored here so a
+// refresh or "New Project" no longer discards paid-for results.
+const DB_NAME = "vidigenius";
+const DB_VERSION = 1;
+const STORE = "projects";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: "id" });
+          store.createIndex("contentHash", "contentHash", { unique: false });
+          store.createIndex("updatedAt", "updatedAt", { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("Library transaction aborted."));
+  });
+};
+
+export const createProjectId = () =>
+  typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const saveProject = async (project: Project): Promise<Project> => {
+  const saved = { ...project, updatedAt: Date.now() };
+  await run("readwrite", store => store.put(saved));
+  return saved;
+};
+
+export const getProject = (id: string): Promise<Project | undefined> =>
+  run("readonly", store => store.get(id) as IDBRequest<Project | undefined>);
+
+// Newest first.
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await run("readonly", store => store.getAll() as IDBRequest<Project[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const findProjectByHash = async (contentHash: string): Promise<Project | undefined> => {
+  const matches = await run("readonly", store => store.index("contentHash").getAll(contentHash) as IDBRequest<Project[]>);
+  return matches.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+};
+
+export const renameProject = async (id: string, name: string): Promise<Project | undefined> => {
+  const project = await getProject(id);
+  if (!project) return undefined;
+  return saveProject({ ...project, name: name.trim() || project.name });
+};
+
+export const deleteProject = (id: string): Promise<undefined> =>
+  run("readwrite", store => store.delete(id));
+
+export const searchProjects = (projects: Project[], query: string): Project[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return projects;
+  return projects.filter(p =>
+    p.name.toLowerCase().includes(q) ||
+    p.fileName.toLowerCase().includes(q) ||
+    p.analysis.titles?.some(t => t.text.toLowerCase().includes(q)) ||
+    p.analysis.trendingKeywords?.some(k => k.toLowerCase().includes(q))
+  );
+};
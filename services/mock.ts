@@ -0,0 +1,127 @@
+import { ChannelProfile, EditableSection, ThumbnailAspectRatio, VideoAnalysis, VideoSource } from "../types";
+import { MOCK_ANALYSIS, MOCK_DESCRIPTIONS } from "./fixtures";
+import { DEFAULT_PLATFORMS } from "./platforms";
+import { addRequiredHashtags, removeBannedWords } from "./profiles";
+import { sleep } from "./retry";
+import { previewAnalysis } from "./validation";
+import { AIProvider, AnalyzeOptions, RequestOptions } from "./provider";
+import { UsageOperation } from "./usage";
+import { UploadedFile, UploadOptions } from "./upload";
+
+// Short artificial delay so loading states are visible during UI work; results never vary.
+const MOCK_LATENCY_MS = 400;
+// The fixture is "streamed" in this many pieces so partial results and cancelling can be tried offline.
+const MOCK_STREAM_CHUNKS = 24;
+
+const THUMBNAIL_SIZES: Record<ThumbnailAspectRatio, [number, number]> = {
+  "16:9": [1280, 720],
+  "9:16": [720, 1280],
+  "1:1": [1080, 1080],
+  "4:5": [1080, 1350]
+};
+
+// Usage is reported under its own model name, so it stays free unless a price is set for "mock".
+const MOCK_MODEL = "mock";
+
+// Rough stand-in for token counts: about four characters per token.
+const reportUsage = (options: RequestOptions, operation: UsageOperation, input: string, output: string, images = 0) =>
+  options.onUsage?.({ operation, model: MOCK_MODEL, inputTokens: Math.ceil(input.length / 4), outputTokens: Math.ceil(output.length / 4), images });
+
+// Small stable string hash (FNV-1a) so the same prompt always yields the same placeholder.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const escapeXml = (value: string) => value.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// With a reference frame the placeholder shows the frame under a tint, so the frame flow is visible offline.
+export const createPlaceholderImage = (prompt: string, aspectRatio: ThumbnailAspectRatio = "16:9", variant = 0, reference?: string): string => {
+  const [width, height] = THUMBNAIL_SIZES[aspectRatio] || THUMBNAIL_SIZES["16:9"];
+  const hue = hashString(`${prompt}#${variant}`) % 360;
+  const label = escapeXml(prompt.length > 80 ? `${prompt.slice(0, 77)}...` : prompt);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},70%,45%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,20%)"/>` +
+    `</linearGradient></defs>` +
+    `<rect width="100%" height="100%" fill="url(#g)"/>` +
+    (reference ? `<image href="${escapeXml(reference)}" width="100%" height="100%" preserveAspectRatio="xMidYMid slice" opacity="0.65"/>` : '') +
+    `<text x="50%" y="45%" text-anchor="middle" font-family="Inter,sans-serif" font-size="${Math.round(width / 14)}" font-weight="900" fill="#fff">MOCK ${aspectRatio}</text>` +
+    `<text x="50%" y="55%" text-anchor="middle" font-family="Inter,sans-serif" font-size="${Math.round(width / 48)}" fill="#e2e8f0">${label}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export const mockProvider: AIProvider = {
+  id: "mock",
+
+  async uploadVideo(file: File, options: UploadOptions = {}): Promise<UploadedFile> {
+    const steps = 4;
+    for (let i = 1; i <= steps; i++) {
+      await sleep(MOCK_LATENCY_MS / steps, options.signal);
+      options.onProgress?.({ phase: "uploading", bytesSent: Math.round((file.size * i) / steps), totalBytes: file.size });
+    }
+    options.onProgress?.({ phase: "processing", bytesSent: file.size, totalBytes: file.size });
+    return { name: `files/mock-${hashString(file.name)}`, uri: `mock://files/${encodeURIComponent(file.name)}`, mimeType: file.type, state: "ACTIVE" };
+  },
+
+  async analyzeVideo(_video: VideoSource, options: AnalyzeOptions = {}): Promise<VideoAnalysis> {
+    await sleep(MOCK_LATENCY_MS, options.signal);
+    const platforms = options.platforms?.length ? options.platforms : DEFAULT_PLATFORMS;
+    const descriptions = Object.fromEntries(platforms.map(id => [id, MOCK_DESCRIPTIONS[id]]));
+    const result: VideoAnalysis = { ...structuredClone(MOCK_ANALYSIS), descriptions };
+
+    const { sources, keywordSupport, searchQueries, ...modelJson } = result;
+    const text = JSON.stringify(modelJson);
+    const chunkSize = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+    for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+      await sleep(MOCK_LATENCY_MS / 8, options.signal);
+      const preview = previewAnalysis(text.slice(0, end));
+      if (preview) options.onPartial?.(preview);
+    }
+    reportUsage(options, 'analysis', JSON.stringify(platforms), text);
+    return result;
+  },
+
+  // Deterministic stand-in: titles rotate one rank, descriptions are tagged with the guidance.
+  // Fixture analyses ignore the channel profile so its checks show up; regeneration honours it,
+  // so fixing a flagged section works end to end in mock mode.
+  async regenerateSection(analysis: VideoAnalysis, section: EditableSection, guidance = '', profile?: ChannelProfile, options: RequestOptions = {}): Promise<VideoAnalysis> {
+    await sleep(MOCK_LATENCY_MS, options.signal);
+    reportUsage(options, 'regenerate', analysis.transcription + guidance, section === 'titles' ? JSON.stringify(analysis.titles) : analysis.descriptions[section] || '');
+    const tag = guidance.trim() ? ` [${guidance.trim()}]` : ' [regenerated]';
+    const voiced = (text: string) => profile ? removeBannedWords(text, profile) : text;
+    if (section === 'titles') {
+      const count = analysis.titles.length;
+      return { ...analysis, titles: analysis.titles.map(t => ({ ...t, text: voiced(t.text), rank: (t.rank % count) + 1 })) };
+    }
+    const text = voiced(`${MOCK_DESCRIPTIONS[section]}${tag}`);
+    return { ...analysis, descriptions: { ...analysis.descriptions, [section]: profile ? addRequiredHashtags(text, profile) : text } };
+  },
+
+  // Tags every localized string with the locale code so variants are easy to tell apart in the UI.
+  async localizeAnalysis(analysis: VideoAnalysis, locale: string, options: RequestOptions = {}): Promise<VideoAnalysis> {
+    await sleep(MOCK_LATENCY_MS, options.signal);
+    reportUsage(options, 'localize', JSON.stringify(analysis), JSON.stringify(analysis.descriptions) + analysis.transcription);
+    const tag = `[${locale.toUpperCase()}]`;
+    return {
+      ...analysis,
+      locale,
+      transcription: `${tag} ${analysis.transcription}`,
+      segments: analysis.segments.map(s => ({ ...s, text: `${tag} ${s.text}` })),
+      chapters: analysis.chapters?.map(c => ({ ...c, title: `${tag} ${c.title}` })),
+      titles: analysis.titles.map(t => ({ ...t, text: `${tag} ${t.text}` })),
+      descriptions: Object.fromEntries(Object.entries(analysis.descriptions).map(([id, text]) => [id, `${tag} ${text}`]))
+    };
+  },
+
+  async generateThumbnail(prompt: string, aspectRatio: ThumbnailAspectRatio = "16:9", variant = 0, reference?: string, options: RequestOptions = {}): Promise<string> {
+    await sleep(MOCK_LATENCY_MS, options.signal);
+    reportUsage(options, 'thumbnail', prompt, '', 1);
+    return createPlaceholderImage(prompt, aspectRatio, variant, reference);
+  }
+};
@@ -0,0 +1,4 @@
+// Gemini model ids, kept apart from the SDK client so the usage ledger can price them without loading it.
+export const ANALYSIS_MODEL = 'gemini-3-flash-preview';
+// gemini-2.5-flash-image does not require the mandatory paid project selection dialog.
+export const THUMBNAIL_MODEL = 'gemini-2.5-flash-image';
@@ -0,0 +1,79 @@
+import { GeneratedThumbnail, Project, ThumbnailAspectRatio, VideoAnalysis, VideoSource } from "../types";
+import { generateThumbnail, uploadVideo } from "./ai";
+import { createProjectId } from "./library";
+import { RequestOptions } from "./provider";
+import { BudgetCheck, checkBudget, estimateRunCost } from "./usage";
+import { UploadOptions } from "./upload";
+import { readVideoDuration } from "../utils/frames";
+
+// Requests carrying inline video data are capped at 20MB; anything larger goes through the Files API.
+export const INLINE_UPLOAD_LIMIT = 20 * 1024 * 1024;
+export const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024;
+
+export const THUMBNAIL_ASPECT_RATIOS: ThumbnailAspectRatio[] = ["16:9", "9:16", "1:1", "4:5"];
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const readAsBase64 = async (file: File): Promise<string> => {
+  // FileReader is browser-only; the CLI runs this in Node, where Buffer does the encoding.
+  if (typeof FileReader === 'undefined') return Buffer.from(await file.arrayBuffer()).toString('base64');
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(new Error("Failed to read file."));
+    reader.readAsDataURL(file);
+  });
+};
+
+// Inline base64 for small clips, resumable Files API upload for everything else.
+export const prepareVideoSource = async (file: File, options: UploadOptions = {}): Promise<VideoSource> => {
+  if (file.size <= INLINE_UPLOAD_LIMIT) {
+    return { kind: 'inline', data: await readAsBase64(file), mimeType: file.type };
+  }
+  const uploaded = await uploadVideo(file, options);
+  return { kind: 'file', uri: uploaded.uri, mimeType: uploaded.mimeType || file.type };
+};
+
+// Estimates a full run on `file` from its duration and checks it against this month's budget.
+export const checkRunBudget = async (file: File, signal?: AbortSignal): Promise<BudgetCheck> =>
+  checkBudget(estimateRunCost(await readVideoDuration(file, { signal }), file.size));
+
+// A video frame sent along with the prompt so the image keeps the real presenter and set.
+export interface ThumbnailReference {
+  url: string; // image data URL
+  time: number; // seconds into the video
+}
+
+export const createThumbnail = async (prompt: string, aspectRatio: ThumbnailAspectRatio, variant = 0, reference?: ThumbnailReference, options?: RequestOptions): Promise<GeneratedThumbnail> => {
+  const url = await generateThumbnail(prompt, aspectRatio, variant, reference?.url, options);
+  return { id: createProjectId(), url, prompt, aspectRatio, createdAt: Date.now(), frameTime: reference?.time };
+};
+
+// Generates `count` candidates in parallel. Failed variants are dropped as long as one succeeds.
+export const createThumbnailVariants = async (prompt: string, aspectRatio: ThumbnailAspectRatio, count: number, reference?: ThumbnailReference, options?: RequestOptions): Promise<GeneratedThumbnail[]> => {
+  const results = await Promise.allSettled(Array.from({ length: count }, (_, variant) => createThumbnail(prompt, aspectRatio, variant, reference, options)));
+  const thumbs = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+  if (thumbs.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return thumbs;
+};
+
+// `id` can be chosen up front so usage recorded during the run is attributed to the project.
+export const buildProject = (file: File, contentHash: string, analysis: VideoAnalysis, profileId?: string, id = createProjectId()): Project => {
+  const now = Date.now();
+  return {
+    id,
+    name: file.name.replace(/\.[^/.]+$/, ''),
+    fileName: file.name,
+    contentHash,
+    createdAt: now,
+    updatedAt: now,
+    analysis,
+    thumbnails: [],
+    profileId
+  };
+};
@@ -0,0 +1,191 @@
+import { PlatformId } from "../types";
+
+export interface CopyLimits {
+  maxChars: number; // hard limit: longer copy is trimmed
+  recommendedChars?: number; // soft limit: where the platform truncates behind "more"
+  maxHashtags?: number; // hard limit: extra hashtags are dropped
+  recommendedHashtags?: number;
+}
+
+export interface PlatformProfile {
+  id: PlatformId;
+  label: string;
+  fieldLabel: string; // what the platform calls the copy field
+  usesTitles: boolean; // whether the ranked title options are published on this platform
+  titleLimits?: CopyLimits;
+  limits: CopyLimits;
+  instructions: string; // what to generate, used in analysis and regeneration prompts
+}
+
+// One entry per publishing target. Order here is the order cards appear in the results view.
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+  {
+    id: "youtube",
+    label: "YouTube",
+    fieldLabel: "Description",
+    usesTitles: true,
+    titleLimits: { maxChars: 100, recommendedChars: 70 },
+    // YouTube ignores every hashtag on a video that has more than 15.
+    limits: { maxChars: 5000, maxHashtags: 15, recommendedHashtags: 3 },
+    instructions: "a high-converting YouTube description with keywords and a timestamp list matching the chapters"
+  },
+  {
+    id: "shorts",
+    label: "YouTube Shorts",
+    fieldLabel: "Description",
+    usesTitles: true,
+    titleLimits: { maxChars: 100, recommendedChars: 40 },
+    limits: { maxChars: 5000, recommendedChars: 100, maxHashtags: 15, recommendedHashtags: 3 },
+    instructions: "a short YouTube Shorts description that opens with the hook, plus #shorts and 2 topical hashtags"
+  },
+  {
+    id: "instagram",
+    label: "Instagram Reels",
+    fieldLabel: "Caption",
+    usesTitles: false,
+    limits: { maxChars: 2200, recommendedChars: 125, maxHashtags: 30 },
+    instructions: "a catchy Instagram Reels caption with the hook in the first line and relevant hashtags at the end"
+  },
+  {
+    id: "tiktok",
+    label: "TikTok",
+    fieldLabel: "Caption",
+    usesTitles: false,
+    limits: { maxChars: 4000, recommendedChars: 150, recommendedHashtags: 5 },
+    instructions: "a punchy TikTok caption with 3-5 trending hashtags"
+  },
+  {
+    id: "x",
+    label: "X",
+    fieldLabel: "Post",
+    usesTitles: false,
+    limits: { maxChars: 280, recommendedHashtags: 2 },
+    instructions: "a single X post (max 280 characters including hashtags) with at most 2 hashtags"
+  },
+  {
+    id: "linkedin",
+    label: "LinkedIn",
+    fieldLabel: "Post",
+    usesTitles: false,
+    limits: { maxChars: 3000, recommendedChars: 210, recommendedHashtags: 5 },
+    instructions: "a professional LinkedIn post with a strong first line, short paragraphs and 3-5 hashtags"
+  },
+  {
+    id: "facebook",
+    label: "Facebook",
+    fieldLabel: "Post",
+    usesTitles: false,
+    limits: { maxChars: 63206, recommendedChars: 125 },
+    instructions: "a conversational Facebook post that invites comments"
+  }
+];
+
+export const DEFAULT_PLATFORMS: PlatformId[] = ["youtube", "instagram"];
+
+export const getPlatform = (id: PlatformId): PlatformProfile =>
+  PLATFORM_PROFILES.find(p => p.id === id) || PLATFORM_PROFILES[0];
+
+export const isPlatformId = (value: string): value is PlatformId => PLATFORM_PROFILES.some(p => p.id === value);
+
+// Registry order, without duplicates or unknown ids.
+export const sortPlatforms = (ids: string[]): PlatformId[] =>
+  PLATFORM_PROFILES.map(p => p.id).filter(id => ids.includes(id));
+
+// Human-readable limits for prompts, e.g. "at most 280 characters, at most 2 hashtags".
+export const describeLimits = (limits: CopyLimits): string => {
+  const parts = [`at most ${limits.maxChars} characters`];
+  if (limits.recommendedChars) parts.push(`ideally the hook within the first ${limits.recommendedChars} characters`);
+  const hashtags = limits.maxHashtags ?? limits.recommendedHashtags;
+  if (hashtags !== undefined) parts.push(`at most ${hashtags} hashtags`);
+  return parts.join(', ');
+};
+
+// Platforms an existing analysis has copy for, falling back to the defaults for empty results.
+export const platformsOf = (analysis: { descriptions?: Partial<Record<PlatformId, string>> }): PlatformId[] => {
+  const ids = sortPlatforms(Object.keys(analysis.descriptions || {}));
+  return ids.length > 0 ? ids : DEFAULT_PLATFORMS;
+};
+
+// Titles are shared across platforms, so they must fit the strictest enabled title limit.
+export const titleLimitsFor = (platforms: PlatformId[]): CopyLimits | undefined => {
+  const limits = platforms.map(id => getPlatform(id).titleLimits).filter((l): l is CopyLimits => !!l);
+  if (limits.length === 0) return undefined;
+  const recommended = limits.map(l => l.recommendedChars).filter((n): n is number => !!n);
+  return {
+    maxChars: Math.min(...limits.map(l => l.maxChars)),
+    recommendedChars: recommended.length ? Math.min(...recommended) : undefined
+  };
+};
+
+const HASHTAG_PATTERN = /(^|\s)#[\p{L}\p{N}_]+/gu;
+
+export const countHashtags = (text: string) => (text.match(HASHTAG_PATTERN) || []).length;
+
+// Counts code points rather than UTF-16 units, so an emoji counts once as it does on most platforms.
+export const countChars = (text: string) => Array.from(text).length;
+
+export type CopyIssueLevel = "error" | "warning";
+
+export interface CopyIssue {
+  level: CopyIssueLevel;
+  message: string;
+}
+
+export const checkCopy = (text: string, limits: CopyLimits): CopyIssue[] => {
+  const issues: CopyIssue[] = [];
+  const chars = countChars(text);
+  const hashtags = countHashtags(text);
+  if (chars > limits.maxChars) {
+    issues.push({ level: "error", message: `${chars - limits.maxChars} characters over the ${limits.maxChars} limit` });
+  } else if (limits.recommendedChars && chars > limits.recommendedChars) {
+    issues.push({ level: "warning", message: `Cut off after ${limits.recommendedChars} characters in the feed` });
+  }
+  if (limits.maxHashtags !== undefined && hashtags > limits.maxHashtags) {
+    issues.push({ level: "error", message: `${hashtags} hashtags, the limit is ${limits.maxHashtags}` });
+  } else if (limits.recommendedHashtags !== undefined && hashtags > limits.recommendedHashtags) {
+    issues.push({ level: "warning", message: `${hashtags} hashtags, ${limits.recommendedHashtags} or fewer works best` });
+  }
+  return issues;
+};
+
+// Keeps the first hashtags up to the cap, then cuts at the last sentence or word
+// boundary that fits. Text already within the hard limits is returned unchanged.
+export const trimToLimits = (text: string, limits: CopyLimits): string => {
+  let result = text;
+
+  if (limits.maxHashtags !== undefined) {
+    let seen = 0;
+    result = result.replace(HASHTAG_PATTERN, (match, lead: string) => (++seen > limits.maxHashtags! ? lead : match));
+    if (seen > limits.maxHashtags) result = result.replace(/[ \t]+\n/g, '\n').replace(/[ \t]{2,}/g, ' ').trim();
+  }
+
+  const chars = Array.from(result);
+  if (chars.length <= limits.maxChars) return result;
+
+  const cut = chars.slice(0, limits.maxChars - 1).join('');
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '), cut.lastIndexOf('\n'));
+  if (sentenceEnd > cut.length * 0.6) return cut.slice(0, sentenceEnd + 1).trim();
+  const wordEnd = cut.lastIndexOf(' ');
+  return `${(wordEnd > cut.length * 0.6 ? cut.slice(0, wordEnd) : cut).trim()}…`;
+};
+
+// Platform selection is a per-browser preference, stored like brand presets.
+const STORAGE_KEY = "vidigenius.platforms";
+
+export const loadEnabledPlatforms = (): PlatformId[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const ids = raw ? sortPlatforms(JSON.parse(raw)) : [];
+    return ids.length > 0 ? ids : DEFAULT_PLATFORMS;
+  } catch {
+    return DEFAULT_PLATFORMS;
+  }
+};
+
+export const saveEnabledPlatforms = (ids: PlatformId[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sortPlatforms(ids)));
+  } catch (err) {
+    console.error("Failed to save platform selection", err);
+  }
+};
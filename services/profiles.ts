@@ -0,0 +1,123 @@
+import { ChannelProfile } from "../types";
+import { createProjectId } from "./library";
+import { CopyIssue } from "./platforms";
+
+// Profiles are small, so they live in localStorage like brand presets.
+const STORAGE_KEY = "vidigenius.channelProfiles";
+const ACTIVE_KEY = "vidigenius.activeProfile";
+
+export const loadChannelProfiles = (): ChannelProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeChannelProfiles = (profiles: ChannelProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (err) {
+    console.error("Failed to save channel profiles", err);
+  }
+};
+
+export const saveChannelProfile = (profile: Omit<ChannelProfile, 'id'> & { id?: string }): ChannelProfile[] => {
+  const profiles = loadChannelProfiles();
+  const saved: ChannelProfile = {
+    ...profile,
+    id: profile.id || createProjectId(),
+    requiredHashtags: profile.requiredHashtags.map(normalizeHashtag).filter(tag => tag.length > 1)
+  };
+  const next = profiles.some(p => p.id === saved.id)
+    ? profiles.map(p => p.id === saved.id ? saved : p)
+    : [...profiles, saved];
+  storeChannelProfiles(next);
+  return next;
+};
+
+export const deleteChannelProfile = (id: string): ChannelProfile[] => {
+  const next = loadChannelProfiles().filter(p => p.id !== id);
+  storeChannelProfiles(next);
+  if (loadActiveProfileId() === id) saveActiveProfileId(null);
+  return next;
+};
+
+// The profile new analyses are written for. Null means the generic voice.
+export const loadActiveProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveProfileId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_KEY, id);
+    else localStorage.removeItem(ACTIVE_KEY);
+  } catch (err) {
+    console.error("Failed to save active channel profile", err);
+  }
+};
+
+export const getActiveProfile = (): ChannelProfile | undefined => {
+  const id = loadActiveProfileId();
+  return id ? loadChannelProfiles().find(p => p.id === id) : undefined;
+};
+
+export const normalizeHashtag = (tag: string) => `#${tag.trim().replace(/^#+/, '').replace(/\s+/g, '')}`;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so banning "hack" does not flag "hackathon".
+const termPattern = (term: string, flags = 'iu') =>
+  new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}_])`, flags);
+
+const containsTerm = (text: string, term: string) => termPattern(term).test(text);
+
+export const findBannedWords = (text: string, profile: ChannelProfile): string[] =>
+  profile.bannedWords.filter(word => word.trim() && containsTerm(text, word));
+
+export const findMissingHashtags = (text: string, profile: ChannelProfile): string[] =>
+  profile.requiredHashtags.filter(tag => !containsTerm(text, normalizeHashtag(tag)));
+
+// Quick fix that drops banned words outright; rewriting with the AI usually reads better.
+export const removeBannedWords = (text: string, profile: ChannelProfile): string =>
+  findBannedWords(text, profile)
+    .reduce((result, word) => result.replace(termPattern(word, 'giu'), ''), text)
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +([,.!?])/g, '$1')
+    .trim();
+
+// Titles are only checked for banned words; platform copy must also carry the required hashtags.
+export const checkProfileCopy = (text: string, profile: ChannelProfile, requireHashtags = true): CopyIssue[] => {
+  const issues: CopyIssue[] = [];
+  const banned = findBannedWords(text, profile);
+  if (banned.length > 0) issues.push({ level: "error", message: `Uses banned ${banned.length > 1 ? 'words' : 'word'}: ${banned.join(', ')}` });
+  const missing = requireHashtags ? findMissingHashtags(text, profile) : [];
+  if (missing.length > 0) issues.push({ level: "warning", message: `Missing ${missing.join(' ')} for ${profile.name}` });
+  return issues;
+};
+
+// Appends missing hashtags to a trailing hashtag line, or on a new line if there is none.
+export const addRequiredHashtags = (text: string, profile: ChannelProfile): string => {
+  const missing = findMissingHashtags(text, profile).map(normalizeHashtag);
+  if (missing.length === 0) return text;
+  const trimmed = text.trimEnd();
+  const lines = trimmed.split('\n');
+  const last = lines[lines.length - 1];
+  if (/^\s*(#[\p{L}\p{N}_]+\s*)+$/u.test(last)) return `${trimmed} ${missing.join(' ')}`;
+  return `${trimmed}\n\n${missing.join(' ')}`;
+};
+
+// Regeneration guidance that asks the model to drop the banned words it used.
+export const bannedWordsGuidance = (words: string[]) => `Rewrite without these words: ${words.join(', ')}.`;
+
+// Profile style is added to the image prompt unless the prompt already carries it.
+export const styleThumbnailPrompt = (prompt: string, profile?: ChannelProfile): string => {
+  const style = profile?.thumbnailStyle.trim();
+  if (!style || prompt.toLowerCase().includes(style.toLowerCase())) return prompt;
+  return `${prompt.trim().replace(/\.?$/, '.')} Channel style: ${style}`;
+};
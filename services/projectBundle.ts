@@ -0,0 +1,159 @@
+import { GeneratedThumbnail, Project } from "../types";
+import { createProjectId, getProject, saveProject } from "./library";
+import { REQUIRED_SECTIONS, validateAnalysis } from "./validation";
+import { buildMarkdownBrief } from "../utils/brief";
+import { buildCaptionFile, CaptionFormat } from "../utils/captions";
+import { toFileSlug } from "../utils/download";
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+
+const BUNDLE_FORMAT = "vidigenius-project";
+const BUNDLE_VERSION = 1;
+const CAPTION_FORMATS: CaptionFormat[] = ["srt", "vtt", "txt"];
+
+// In a ZIP, thumbnails are separate image files referenced by `file`. A standalone JSON export
+// embeds them as data URLs in `url` so the one file still restores everything.
+type BundledThumbnail = Omit<GeneratedThumbnail, 'url'> & { url?: string; file?: string };
+
+export interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Omit<Project, 'thumbnails'> & { thumbnails: BundledThumbnail[] };
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/svg+xml": "svg"
+};
+
+const dataUrlMime = (url: string) => url.slice(5).split(/[;,]/)[0];
+
+export const dataUrlExtension = (url: string) => MIME_EXTENSIONS[dataUrlMime(url)] || "png";
+
+export const dataUrlToBytes = (url: string): Uint8Array => {
+  const comma = url.indexOf(',');
+  const payload = url.slice(comma + 1);
+  if (url.slice(0, comma).endsWith(';base64')) {
+    return Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+  }
+  return new TextEncoder().encode(decodeURIComponent(payload));
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = '';
+  // Chunked so large images do not overflow the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const thumbnailPath = (thumb: GeneratedThumbnail, index: number) => {
+  const ext = dataUrlExtension(thumb.url);
+  return `thumbnails/${String(index + 1).padStart(2, '0')}-${thumb.aspectRatio.replace(':', 'x')}${thumb.picked ? '-ab' : ''}.${ext}`;
+};
+
+const toBundle = (project: Project, thumbnails: BundledThumbnail[]): ProjectBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: { ...project, thumbnails }
+});
+
+export const buildProjectJson = (project: Project): string =>
+  JSON.stringify(toBundle(project, project.thumbnails), null, 2);
+
+// project.json, brief.md, captions for the source language and every localization, and all thumbnails.
+// The same layout is zipped for download and written to disk by the CLI.
+export const buildProjectFiles = (project: Project): ZipEntry[] => {
+  const encoder = new TextEncoder();
+  const slug = toFileSlug(project.name);
+  const entries: ZipEntry[] = [];
+  const bundled: BundledThumbnail[] = project.thumbnails.map((thumb, idx) => {
+    const { url, ...meta } = thumb;
+    const file = thumbnailPath(thumb, idx);
+    entries.push({ path: file, data: dataUrlToBytes(url) });
+    return { ...meta, file };
+  });
+
+  const variants = [project.analysis, ...Object.values(project.localizations || {})];
+  for (const variant of variants) {
+    if (!variant.segments?.length) continue;
+    const suffix = variant.locale ? `.${variant.locale}` : '';
+    for (const format of CAPTION_FORMATS) {
+      const { content } = buildCaptionFile(variant.segments, format);
+      entries.push({ path: `captions/${slug}${suffix}.${format}`, data: encoder.encode(content) });
+    }
+  }
+
+  entries.unshift(
+    { path: "project.json", data: encoder.encode(JSON.stringify(toBundle(project, bundled), null, 2)) },
+    { path: "brief.md", data: encoder.encode(buildMarkdownBrief(project)) }
+  );
+  return entries;
+};
+
+export const buildProjectZip = (project: Project): Blob => createZip(buildProjectFiles(project));
+
+const isZip = async (file: File) => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04;
+};
+
+const EXTENSION_MIME: Record<string, string> = Object.fromEntries(Object.entries(MIME_EXTENSIONS).map(([mime, ext]) => [ext, mime]));
+
+// Reads a .zip bundle or a standalone .json export back into a Project and saves it to the library.
+// A project whose id is already in the library is imported as a copy rather than overwriting it.
+export const importProjectFile = async (file: File): Promise<Project> => {
+  let json: string;
+  const files = new Map<string, Uint8Array>();
+  if (await isZip(file)) {
+    const entries = await readZip(await file.arrayBuffer());
+    // Bundles that were unpacked and zipped again usually gain a top-level folder.
+    const manifest = entries.find(e => e.path === "project.json" || e.path.endsWith("/project.json"));
+    if (!manifest) throw new Error("This ZIP has no project.json. Export it again from VidiGenius.");
+    const root = manifest.path.slice(0, -"project.json".length);
+    entries.forEach(e => { if (e.path.startsWith(root)) files.set(e.path.slice(root.length), e.data); });
+    json = new TextDecoder().decode(manifest.data);
+  } else {
+    json = await file.text();
+  }
+
+  let bundle: ProjectBundle;
+  try {
+    bundle = JSON.parse(json);
+  } catch {
+    throw new Error("The project file is not valid JSON.");
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !bundle.project) throw new Error("This is not a VidiGenius project export.");
+  if (bundle.version > BUNDLE_VERSION) throw new Error("This project was exported by a newer version of VidiGenius.");
+
+  const raw = bundle.project;
+  const { analysis, invalid } = validateAnalysis(raw.analysis, raw.analysis || {});
+  const missing = invalid.filter(section => REQUIRED_SECTIONS.includes(section));
+  if (missing.length > 0) throw new Error(`The project file is missing ${missing.join(', ')}.`);
+
+  const thumbnails: GeneratedThumbnail[] = (raw.thumbnails || []).flatMap(({ file: path, url, ...meta }) => {
+    if (url) return [{ ...meta, id: meta.id || createProjectId(), url }];
+    const bytes = path ? files.get(path) : undefined;
+    if (!bytes) return [];
+    const mimeType = EXTENSION_MIME[path!.split('.').pop() || ''] || "image/png";
+    return [{ ...meta, id: meta.id || createProjectId(), url: bytesToDataUrl(bytes, mimeType) }];
+  });
+
+  const now = Date.now();
+  const exists = raw.id ? await getProject(raw.id).catch(() => undefined) : undefined;
+  return saveProject({
+    ...raw,
+    id: raw.id && !exists ? raw.id : createProjectId(),
+    name: raw.name || raw.fileName || file.name.replace(/\.[^/.]+$/, ''),
+    fileName: raw.fileName || '',
+    contentHash: raw.contentHash || '',
+    createdAt: raw.createdAt || now,
+    updatedAt: now,
+    analysis,
+    thumbnails
+  });
+};
@@ -0,0 +1,34 @@
+import { ChannelProfile, EditableSection, PlatformId, ThumbnailAspectRatio, VideoAnalysis, VideoSource } from "../types";
+import { RetryInfo } from "./retry";
+import { CallUsage } from "./usage";
+import { UploadedFile, UploadOptions } from "./upload";
+
+export type ProviderId = "gemini" | "mock" | "proxy";
+
+export interface RequestOptions {
+  signal?: AbortSignal; // aborts the request, including any backoff wait
+  onRetry?: (info: RetryInfo) => void; // a rate-limit or server error is about to be retried
+  onUsage?: (usage: CallUsage) => void; // once per billed model call, including section repairs
+}
+
+export interface AnalyzeOptions extends RequestOptions {
+  platforms?: PlatformId[]; // which platform copy to generate; defaults to DEFAULT_PLATFORMS
+  profile?: ChannelProfile; // channel voice to write in; generic when absent
+  onPartial?: (partial: Partial<VideoAnalysis>) => void; // what has streamed in so far, after every chunk
+}
+
+// Everything the app needs from a model backend. Gemini is the production implementation and runs
+// where the key lives (the server); the browser reaches it through the proxy provider. The mock
+// provider serves fixtures so the UI can run without a key or network.
+export interface AIProvider {
+  id: ProviderId;
+  uploadVideo(file: File, options?: UploadOptions): Promise<UploadedFile>;
+  analyzeVideo(video: VideoSource, options?: AnalyzeOptions): Promise<VideoAnalysis>;
+  // Reruns one copy section from the existing transcript (no video), optionally steered by editor guidance.
+  regenerateSection(analysis: VideoAnalysis, section: EditableSection, guidance?: string, profile?: ChannelProfile, options?: RequestOptions): Promise<VideoAnalysis>;
+  // Culturally adapted copy and translated captions in another language, built from an existing analysis.
+  localizeAnalysis(analysis: VideoAnalysis, locale: string, options?: RequestOptions): Promise<VideoAnalysis>;
+  // `variant` distinguishes several candidates generated from the same prompt in one batch.
+  // `reference` is an image data URL (a frame from the video) the result should stay faithful to.
+  generateThumbnail(prompt: string, aspectRatio?: ThumbnailAspectRatio, variant?: number, reference?: string, options?: RequestOptions): Promise<string>;
+}
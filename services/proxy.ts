@@ -0,0 +1,114 @@
+import { ChannelProfile, EditableSection, PlatformId, ThumbnailAspectRatio, VideoAnalysis, VideoSource } from "../types";
+import { AnalysisError, AnalysisErrorCode } from "./errors";
+import { AIProvider, AnalyzeOptions, RequestOptions } from "./provider";
+import { RetryInfo, withRetry } from "./retry";
+import { uploadVideoFile } from "./upload";
+import { CallUsage } from "./usage";
+
+// Browser side of the backend proxy (server/). The API key stays on the server; every model
+// call is a POST whose response streams newline-delimited JSON events back to the page.
+
+// Set with API_BASE_URL in .env.local; the Vite dev server forwards /api to the local proxy.
+export const API_BASE = process.env.API_BASE_URL || "/api";
+
+export const PROXY_ROUTES = {
+  analyze: "/analyze",
+  regenerate: "/regenerate",
+  localize: "/localize",
+  thumbnail: "/thumbnail"
+} as const;
+
+export interface AnalyzeRequest {
+  video: VideoSource;
+  platforms?: PlatformId[];
+  profile?: ChannelProfile;
+}
+
+export interface RegenerateRequest {
+  analysis: VideoAnalysis;
+  section: EditableSection;
+  guidance?: string;
+  profile?: ChannelProfile;
+}
+
+export interface LocalizeRequest {
+  analysis: VideoAnalysis;
+  locale: string;
+}
+
+export interface ThumbnailRequest {
+  prompt: string;
+  aspectRatio?: ThumbnailAspectRatio;
+  variant?: number;
+  reference?: string;
+}
+
+// Everything a streamed call can report. Exactly one `result` or `error` ends the stream.
+export type ProxyEvent<T = unknown> =
+  | { type: "partial"; partial: Partial<VideoAnalysis> }
+  | { type: "retry"; retry: RetryInfo }
+  | { type: "usage"; usage: CallUsage }
+  | { type: "result"; result: T }
+  | { type: "error"; code: AnalysisErrorCode; message: string };
+
+// Non-2xx answers are rethrown in the API's own error shape so toAnalysisError maps them,
+// including a dev server reporting that the proxy is not running.
+const responseError = async (response: Response) => {
+  const text = await response.text().catch(() => "");
+  try {
+    if (typeof JSON.parse(text).error?.code === "number") return new Error(text);
+  } catch {}
+  return new Error(JSON.stringify({ error: { code: response.status, message: text || response.statusText } }));
+};
+
+// Rate-limited or unreachable proxies are retried like the API itself; once the stream is open,
+// the server does its own retrying and reports it as `retry` events.
+const callProxy = async <T>(route: string, body: unknown, options: AnalyzeOptions = {}): Promise<T> => {
+  const response = await withRetry(async () => {
+    const res = await fetch(`${API_BASE}${route}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: options.signal
+    });
+    if (!res.ok || !res.body) throw await responseError(res);
+    return res;
+  }, options);
+
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (value) buffered += value;
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() || "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as ProxyEvent<T>;
+      switch (event.type) {
+        case "partial": options.onPartial?.(event.partial); break;
+        case "retry": options.onRetry?.(event.retry); break;
+        case "usage": options.onUsage?.(event.usage); break;
+        case "result": return event.result;
+        case "error": throw new AnalysisError(event.code, event.message);
+      }
+    }
+    if (done) break;
+  }
+  throw new AnalysisError("NETWORK", "The connection to the server closed before the result arrived. Please try again.");
+};
+
+export const proxyProvider: AIProvider = {
+  id: "proxy",
+  // Only starting the upload and polling its status need the key; chunks go straight to the
+  // upload URL the server hands back, so large videos never pass through the proxy.
+  uploadVideo: (file, options) => uploadVideoFile(file, { baseUrl: API_BASE, ...options }),
+  analyzeVideo: (video, options = {}) =>
+    callProxy<VideoAnalysis>(PROXY_ROUTES.analyze, { video, platforms: options.platforms, profile: options.profile } satisfies AnalyzeRequest, options),
+  regenerateSection: (analysis, section, guidance, profile, options?: RequestOptions) =>
+    callProxy<VideoAnalysis>(PROXY_ROUTES.regenerate, { analysis, section, guidance, profile } satisfies RegenerateRequest, options),
+  localizeAnalysis: (analysis, locale, options?: RequestOptions) =>
+    callProxy<VideoAnalysis>(PROXY_ROUTES.localize, { analysis, locale } satisfies LocalizeRequest, options),
+  generateThumbnail: (prompt, aspectRatio, variant, reference, options?: RequestOptions) =>
+    callProxy<string>(PROXY_ROUTES.thumbnail, { prompt, aspectRatio, variant, reference } satisfies ThumbnailRequest, options)
+};
@@ -0,0 +1,183 @@
+import { AnalysisJob, Project, ThumbnailAspectRatio } from "../types";
+import { analyzeVideo } from "./ai";
+import { createProjectId, findProjectByHash, saveProject } from "./library";
+import { AnalysisError, readableError } from "./errors";
+import { buildProject, createThumbnail, prepareVideoSource } from "./pipeline";
+import { loadEnabledPlatforms } from "./platforms";
+import { getActiveProfile, styleThumbnailPrompt } from "./profiles";
+import { budgetMessage, checkBudget, estimateRunCost, estimateThumbnailCost, priceCall, trackUsage } from "./usage";
+import { readVideoDuration } from "../utils/frames";
+import { hashFile } from "../utils/hash";
+
+export const DEFAULT_CONCURRENCY = 2;
+
+type JobUpdate = Partial<Pick<AnalysisJob, 'status' | 'progress' | 'message'>>;
+export type JobRunner = (job: AnalysisJob, update: (patch: JobUpdate) => void, signal: AbortSignal) => Promise<{ project: Project; cached: boolean; warning?: string }>;
+
+// Default runner: the same upload -> analyze -> thumbnail pipeline as the single-file flow.
+// Videos already in the library are reused rather than analyzed (and billed) again; one saved
+// before its thumbnail failed resumes at the thumbnail step. Nobody is there to confirm a run over
+// budget: in block mode the job fails, in warn mode it runs and is flagged.
+export const createJobRunner = (getAspectRatio: () => ThumbnailAspectRatio): JobRunner => {
+  // Expected cost of each running job that its recorded usage has not covered yet. Jobs check the
+  // budget against it, so parallel jobs cannot all pass against the same remaining budget.
+  const reservations = new Map<string, number>();
+  const reserved = () => [...reservations.values()].reduce((sum, cost) => sum + cost, 0);
+
+  return async (job, update, signal) => {
+    update({ status: 'uploading', progress: 0, message: 'Fingerprinting video...' });
+    const contentHash = await hashFile(job.file).catch(() => '');
+    const match = contentHash ? await findProjectByHash(contentHash).catch(() => undefined) : undefined;
+    if (match && match.thumbnails.length > 0) return { project: match, cached: true };
+
+    const estimate = match ? estimateThumbnailCost() : estimateRunCost(await readVideoDuration(job.file, { signal }), job.file.size);
+    signal.throwIfAborted();
+    // No await between the check and the reservation, or another job could slip in between.
+    const budget = checkBudget(estimate, undefined, undefined, reserved());
+    if (budget.status === 'block') throw new AnalysisError('BUDGET', budgetMessage(budget));
+    const warning = budget.status === 'warn' ? 'Ran over the monthly budget' : undefined;
+    reservations.set(job.id, estimate);
+
+    try {
+      const profile = getActiveProfile();
+      const projectId = match?.id || createProjectId();
+      const track = trackUsage({ projectId, label: job.file.name });
+      const onUsage: typeof track = (usage) => {
+        track(usage);
+        reservations.set(job.id, Math.max(0, (reservations.get(job.id) || 0) - priceCall(usage)));
+      };
+
+      let project = match;
+      if (!project) {
+        update({ message: 'Uploading...' });
+        const source = await prepareVideoSource(job.file, {
+          signal,
+          onProgress: (p) => update({
+            progress: p.bytesSent / p.totalBytes,
+            message: p.phase === 'processing' ? 'Processing upload...' : 'Uploading...'
+          })
+        });
+
+        update({ status: 'analyzing', progress: 0, message: 'Analyzing from 00:00...' });
+        const analysis = await analyzeVideo(source, { platforms: loadEnabledPlatforms(), profile, signal, onUsage });
+        project = await saveProject(buildProject(job.file, contentHash, analysis, profile?.id, projectId));
+      }
+
+      update({ status: 'thumbnail', progress: 0, message: 'Generating thumbnail...' });
+      const thumb = await createThumbnail(styleThumbnailPrompt(project.analysis.thumbnailConcept.prompt, profile), getAspectRatio(), 0, undefined, { signal, onUsage });
+      project = await saveProject({ ...project, thumbnails: [thumb] });
+      return { project, cached: false, warning };
+    } finally {
+      reservations.delete(job.id);
+    }
+  };
+};
+
+// Small observable job queue with a concurrency limit. React subscribes through
+// useSyncExternalStore, so `getJobs` must return the same array until something changes.
+export class AnalysisQueue {
+  private jobs: AnalysisJob[] = [];
+  private listeners = new Set<() => void>();
+  private running = 0;
+  private controllers = new Map<string, AbortController>();
+
+  constructor(private runner: JobRunner, private concurrency = DEFAULT_CONCURRENCY) {}
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getJobs = () => this.jobs;
+
+  getConcurrency = () => this.concurrency;
+
+  setConcurrency(limit: number) {
+    this.concurrency = Math.max(1, Math.floor(limit));
+    this.pump();
+  }
+
+  add(files: File[]) {
+    const now = Date.now();
+    const added: AnalysisJob[] = files.map((file, idx) => ({
+      id: createProjectId(),
+      file,
+      status: 'queued',
+      progress: 0,
+      message: 'Waiting in queue',
+      attempts: 0,
+      addedAt: now + idx
+    }));
+    this.jobs = [...this.jobs, ...added];
+    this.emit();
+    this.pump();
+  }
+
+  retry(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || job.status !== 'failed') return;
+    this.patch(id, { status: 'queued', progress: 0, message: 'Waiting in queue', error: undefined });
+    this.pump();
+  }
+
+  // Stops a running job where it is; it stays in the list as failed so it can be retried.
+  cancel(id: string) {
+    this.controllers.get(id)?.abort();
+  }
+
+  // Removing a running job cancels it first.
+  remove(id: string) {
+    if (!this.jobs.some(j => j.id === id)) return;
+    this.controllers.get(id)?.abort();
+    this.jobs = this.jobs.filter(j => j.id !== id);
+    this.emit();
+  }
+
+  clearFinished() {
+    this.jobs = this.jobs.filter(j => j.status !== 'done');
+    this.emit();
+  }
+
+  private patch(id: string, patch: Partial<AnalysisJob>) {
+    this.jobs = this.jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private pump() {
+    while (this.running < this.concurrency) {
+      const next = this.jobs.find(j => j.status === 'queued');
+      if (!next) return;
+      this.start(next);
+    }
+  }
+
+  private async start(job: AnalysisJob) {
+    this.running++;
+    const attempts = job.attempts + 1;
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.patch(job.id, { status: 'uploading', attempts });
+    try {
+      const { project, cached, warning } = await this.runner({ ...job, attempts }, (update) => {
+        if (!controller.signal.aborted) this.patch(job.id, update);
+      }, controller.signal);
+      controller.signal.throwIfAborted();
+      this.patch(job.id, { status: 'done', progress: 1, message: cached ? 'Loaded from library' : warning ? `Complete · ${warning}` : 'Complete', project, cached });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        this.patch(job.id, { status: 'failed', message: 'Cancelled', error: 'Cancelled' });
+      } else {
+        console.error(`Job ${job.file.name} failed:`, err);
+        this.patch(job.id, { status: 'failed', message: 'Failed', error: readableError(err) });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.running--;
+      this.pump();
+    }
+  }
+}
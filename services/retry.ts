@@ -0,0 +1,66 @@
+import { AnalysisErrorCode, isAbortError, toAnalysisError } from "./errors";
+
+// Reported before each wait so the UI can say why it is pausing and for how long.
+export interface RetryInfo {
+  attempt: number; // the attempt that just failed, starting at 1
+  maxAttempts: number;
+  delayMs: number;
+  code: AnalysisErrorCode;
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+// Rate limits and server hiccups usually clear on their own; everything else needs the user.
+const RETRYABLE: AnalysisErrorCode[] = ['RATE_LIMITED', 'UNAVAILABLE', 'NETWORK'];
+
+export const isRetryable = (err: unknown) => !isAbortError(err) && RETRYABLE.includes(toAnalysisError(err).code);
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Request cancelled', 'AbortError'));
+  // The listener is dropped when the wait ends, so one signal can span many sleeps without piling up listeners.
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Request cancelled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 429 responses carry the server's own wait as RetryInfo, e.g. "retryDelay": "17s".
+const serverRetryDelay = (err: unknown): number => {
+  const details = toAnalysisError(err).details || '';
+  const match = details.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : 0;
+};
+
+// Exponential backoff with "equal jitter": half the step is fixed, half random, so parallel
+// requests that failed together do not all retry at the same moment.
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const step = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(step / 2 + Math.random() * (step / 2));
+};
+
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, maxAttempts = 4, baseDelayMs = 2000, maxDelayMs = 30000, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new DOMException('Request cancelled', 'AbortError');
+    try {
+      return await task(attempt);
+    } catch (err) {
+      if (signal?.aborted || attempt >= maxAttempts || !isRetryable(err)) throw err;
+      const delayMs = Math.min(maxDelayMs, Math.max(backoffDelay(attempt, baseDelayMs, maxDelayMs), serverRetryDelay(err)));
+      console.warn(`Request failed, retrying in ${delayMs}ms (attempt ${attempt} of ${maxAttempts})`, err);
+      onRetry?.({ attempt, maxAttempts, delayMs, code: toAnalysisError(err).code });
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,130 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../server/app";
+import { loadConfig } from "../server/config";
+import { sendJson } from "../server/http";
+import { createLogger } from "../server/logger";
+import { hasPendingUpload, UploadError, UploadProgress, uploadVideoFile, waitForActive } from "./upload";
+
+// Runs against the proxy's mock upstream, which tracks byte offsets like the real Files API.
+// Files named "files/stuck-<state>" are answered by the test itself to drive the polling paths.
+
+let server: Server;
+let baseUrl: string;
+let chunkRequests: { command: string; offset: string | undefined }[] = [];
+
+beforeAll(async () => {
+  const app = createApp(loadConfig({ UPSTREAM: "mock" }), createLogger("error", {}, () => undefined));
+  server = createServer((req, res) => {
+    const stuck = req.url?.match(/^\/api\/v1beta\/files\/stuck-(\w+)$/);
+    if (stuck) return sendJson(res, 200, { name: `files/stuck-${stuck[1]}`, uri: "", mimeType: "video/mp4", state: stuck[1].toUpperCase() });
+    if (req.url?.startsWith("/api/mock-upload/")) {
+      chunkRequests.push({ command: String(req.headers["x-goog-upload-command"]), offset: req.headers["x-goog-upload-offset"] as string | undefined });
+    }
+    void app.handle(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  chunkRequests = [];
+  const store = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => void store.set(key, value),
+    removeItem: (key: string) => void store.delete(key)
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const videoFile = (size: number, name = "clip.mp4") =>
+  new File([new Uint8Array(size).map((_, i) => i % 251)], name, { type: "video/mp4", lastModified: 1 });
+
+describe("uploadVideoFile", () => {
+  it("sends fixed-size chunks, finalizes on the last one and returns the active file", async () => {
+    const progress: UploadProgress[] = [];
+    const uploaded = await uploadVideoFile(videoFile(2500), { baseUrl, chunkSize: 1000, onProgress: p => progress.push(p) });
+
+    expect(uploaded.state).toBe("ACTIVE");
+    expect(uploaded.name).toMatch(/^files\/mock-/);
+    expect(chunkRequests).toEqual([
+      { command: "upload", offset: "0" },
+      { command: "upload", offset: "1000" },
+      { command: "upload, finalize", offset: "2000" }
+    ]);
+    expect(progress.map(p => `${p.phase}:${p.bytesSent}`)).toEqual(["uploading:0", "uploading:1000", "uploading:2000", "uploading:2500", "processing:2500"]);
+  });
+
+  it("finalizes in a single request when the file ends on a chunk boundary", async () => {
+    const uploaded = await uploadVideoFile(videoFile(2000), { baseUrl, chunkSize: 1000 });
+    expect(uploaded.state).toBe("ACTIVE");
+    expect(chunkRequests.map(r => r.command)).toEqual(["upload", "upload, finalize"]);
+  });
+
+  it("resumes a stored session from the offset the server reports", async () => {
+    const file = videoFile(3000);
+    const controller = new AbortController();
+    const first = uploadVideoFile(file, {
+      baseUrl,
+      chunkSize: 1000,
+      signal: controller.signal,
+      onProgress: p => { if (p.bytesSent === 1000) controller.abort(); }
+    });
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    expect(hasPendingUpload(file)).toBe(true);
+
+    chunkRequests = [];
+    const progress: number[] = [];
+    const uploaded = await uploadVideoFile(file, { baseUrl, chunkSize: 1000, onProgress: p => progress.push(p.bytesSent) });
+
+    expect(uploaded.state).toBe("ACTIVE");
+    expect(chunkRequests[0]).toEqual({ command: "query", offset: undefined });
+    expect(chunkRequests.slice(1).map(r => r.offset)).toEqual(["1000", "2000"]);
+    expect(progress[0]).toBe(1000);
+    expect(hasPendingUpload(file)).toBe(false);
+  });
+
+  it("starts a new session when the stored one is no longer known", async () => {
+    const file = videoFile(1500);
+    localStorage.setItem(`vidigenius.upload.${file.name}:${file.size}:${file.lastModified}`, `${baseUrl}/mock-upload/gone`);
+
+    const uploaded = await uploadVideoFile(file, { baseUrl, chunkSize: 1000 });
+    expect(uploaded.state).toBe("ACTIVE");
+    expect(chunkRequests.map(r => r.command)).toEqual(["query", "upload", "upload, finalize"]);
+    expect(chunkRequests.slice(1).map(r => r.offset)).toEqual(["0", "1000"]);
+  });
+});
+
+describe("waitForActive", () => {
+  it("returns an active file without polling", async () => {
+    const file = { name: "files/x", uri: "", mimeType: "video/mp4", state: "ACTIVE" };
+    await expect(waitForActive(file, { baseUrl })).resolves.toBe(file);
+  });
+
+  it("fails without retry when processing fails", async () => {
+    const error = await waitForActive({ name: "files/stuck-failed", uri: "", mimeType: "video/mp4", state: "PROCESSING" }, { baseUrl, pollIntervalMs: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.resumable).toBe(false);
+    expect(error.message).toMatch(/could not be processed/);
+  });
+
+  it("times out when the file never becomes active", async () => {
+    const started = Date.now();
+    const clock = vi.spyOn(Date, "now");
+    // The deadline and the first check see the real time; every later check is past the deadline.
+    clock.mockReturnValueOnce(started).mockReturnValueOnce(started).mockReturnValue(started + 11 * 60 * 1000);
+
+    const error = await waitForActive({ name: "files/stuck-processing", uri: "", mimeType: "video/mp4", state: "PROCESSING" }, { baseUrl, pollIntervalMs: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.resumable).toBe(true);
+    expect(error.message).toMatch(/Timed out/);
+  });
+});
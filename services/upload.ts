@@ -0,0 +1,202 @@
+// Resumable upload to the Gemini Files API.
+// Protocol: https://ai.google.dev/api/files — a "start" request opens an upload session,
+// chunks are sent with an explicit byte offset, and a "query" request tells us how many
+// bytes the server already holds so a dropped connection can pick up where it left off.
+
+import { isAbortError } from "./errors";
+import { sleep } from "./retry";
+
+export const DEFAULT_FILES_API_BASE = "https://generativelanguage.googleapis.com";
+
+// Chunk sizes must be a multiple of 256 KiB for every chunk except the last one.
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const SESSION_STORAGE_PREFIX = "vidigenius.upload.";
+const MAX_CHUNK_ATTEMPTS = 5;
+const POLL_INTERVAL_MS = 3000;
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface UploadedFile {
+  name: string; // e.g. "files/abc-123"
+  uri: string;
+  mimeType: string;
+  state: "PROCESSING" | "ACTIVE" | "FAILED" | string;
+}
+
+export interface UploadProgress {
+  phase: "uploading" | "processing";
+  bytesSent: number;
+  totalBytes: number;
+}
+
+export interface UploadOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  chunkSize?: number;
+  // How long to wait between processing checks; defaults to POLL_INTERVAL_MS.
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public readonly resumable: boolean = true) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+// Upload sessions survive a page refresh for the same file (name + size + mtime).
+const sessionKey = (file: File) => `${SESSION_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const loadSession = (file: File): string | null => {
+  try {
+    return localStorage.getItem(sessionKey(file));
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (file: File, uploadUrl: string | null) => {
+  try {
+    if (uploadUrl) localStorage.setItem(sessionKey(file), uploadUrl);
+    else localStorage.removeItem(sessionKey(file));
+  } catch {
+    // Storage may be unavailable (private mode); resuming then only works within this page.
+  }
+};
+
+export const hasPendingUpload = (file: File) => loadSession(file) !== null;
+
+const withKey = (url: string, apiKey?: string) => {
+  if (!apiKey) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(apiKey)}`;
+};
+
+const startSession = async (file: File, opts: UploadOptions): Promise<string> => {
+  const base = opts.baseUrl || DEFAULT_FILES_API_BASE;
+  const response = await fetch(withKey(`${base}/upload/v1beta/files`, opts.apiKey), {
+    method: 'POST',
+    signal: opts.signal,
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(file.size),
+      'X-Goog-Upload-Header-Content-Type': file.type || 'video/mp4',
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ file: { display_name: file.name } })
+  });
+  const uploadUrl = response.headers.get('x-goog-upload-url');
+  if (!response.ok || !uploadUrl) {
+    throw new UploadError(`Could not start upload (HTTP ${response.status}).`, false);
+  }
+  // The API returns an absolute URL; the proxy's mock upstream returns a path on itself.
+  return new URL(uploadUrl, response.url).href;
+};
+
+// Asks the server how many bytes of this session it has already persisted.
+const queryOffset = async (uploadUrl: string, opts: UploadOptions): Promise<number | null> => {
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    signal: opts.signal,
+    headers: { 'X-Goog-Upload-Command': 'query' }
+  });
+  if (!response.ok) return null;
+  const status = response.headers.get('x-goog-upload-status');
+  if (status && status !== 'active') return null;
+  const received = Number(response.headers.get('x-goog-upload-size-received'));
+  return Number.isFinite(received) ? received : null;
+};
+
+const sendChunk = async (uploadUrl: string, file: File, offset: number, chunkSize: number, opts: UploadOptions) => {
+  const end = Math.min(offset + chunkSize, file.size);
+  const isLast = end >= file.size;
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    signal: opts.signal,
+    headers: {
+      'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+      'X-Goog-Upload-Offset': String(offset)
+    },
+    body: file.slice(offset, end)
+  });
+  if (!response.ok) {
+    throw new UploadError(`Chunk upload failed at byte ${offset} (HTTP ${response.status}).`, response.status >= 500 || response.status === 429);
+  }
+  return { end, isLast, response };
+};
+
+const getFile = async (name: string, opts: UploadOptions): Promise<UploadedFile> => {
+  const base = opts.baseUrl || DEFAULT_FILES_API_BASE;
+  const response = await fetch(withKey(`${base}/v1beta/${name}`, opts.apiKey), { signal: opts.signal });
+  if (!response.ok) throw new UploadError(`Could not read file status (HTTP ${response.status}).`);
+  return response.json();
+};
+
+// Files are not usable in a prompt until the backend finishes processing them.
+export const waitForActive = async (file: UploadedFile, opts: UploadOptions = {}): Promise<UploadedFile> => {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+  let current = file;
+  while (current.state !== 'ACTIVE') {
+    if (current.state === 'FAILED') throw new UploadError("The video could not be processed. Try a different file or format.", false);
+    if (Date.now() > deadline) throw new UploadError("Timed out waiting for the video to finish processing.");
+    await sleep(opts.pollIntervalMs ?? POLL_INTERVAL_MS, opts.signal);
+    current = await getFile(current.name, opts);
+  }
+  return current;
+};
+
+// Uploads `file` in chunks, resuming an earlier session for the same file when one exists,
+// then polls until the file is ACTIVE and can be referenced by URI.
+export const uploadVideoFile = async (file: File, opts: UploadOptions = {}): Promise<UploadedFile> => {
+  const chunkSize = opts.chunkSize || UPLOAD_CHUNK_SIZE;
+  const report = (phase: UploadProgress['phase'], bytesSent: number) =>
+    opts.onProgress?.({ phase, bytesSent, totalBytes: file.size });
+
+  let uploadUrl = loadSession(file);
+  let offset = 0;
+  if (uploadUrl) {
+    const received = await queryOffset(uploadUrl, opts).catch(() => null);
+    if (received === null) {
+      uploadUrl = null;
+    } else {
+      offset = received;
+    }
+  }
+  if (!uploadUrl) {
+    uploadUrl = await startSession(file, opts);
+    saveSession(file, uploadUrl);
+  }
+  report('uploading', offset);
+
+  let attempts = 0;
+  while (true) {
+    try {
+      const { end, isLast, response } = await sendChunk(uploadUrl, file, offset, chunkSize, opts);
+      offset = end;
+      attempts = 0;
+      report('uploading', offset);
+      if (isLast) {
+        const body = await response.json();
+        saveSession(file, null);
+        report('processing', file.size);
+        return waitForActive(body.file, opts);
+      }
+    } catch (err: unknown) {
+      if (isAbortError(err)) throw err;
+      if (err instanceof UploadError && !err.resumable) {
+        saveSession(file, null);
+        throw err;
+      }
+      attempts++;
+      if (attempts >= MAX_CHUNK_ATTEMPTS) {
+        throw new UploadError("Upload interrupted. Check your connection and resume the upload.");
+      }
+      await sleep(Math.min(1000 * 2 ** attempts, 15000), opts.signal);
+      // The server may have stored part of the failed chunk; continue from what it reports.
+      const received = await queryOffset(uploadUrl, opts).catch(() => null);
+      if (received !== null) offset = received;
+    }
+  }
+};
@@ -0,0 +1,194 @@
+import { ANALYSIS_MODEL, THUMBNAIL_MODEL } from "./models";
+import { createProjectId } from "./library";
+
+// Usage ledger, price table and monthly budget. Small, so they live in localStorage like brand presets.
+const LEDGER_KEY = "vidigenius.usage";
+const PRICES_KEY = "vidigenius.prices";
+const BUDGET_KEY = "vidigenius.budget";
+
+// Older records are dropped on write; the dashboard only looks back a year.
+const LEDGER_RETENTION_MS = 400 * 24 * 60 * 60 * 1000;
+
+export type UsageOperation = 'analysis' | 'repair' | 'regenerate' | 'localize' | 'thumbnail';
+
+// What one model call consumed, as reported by the provider.
+export interface CallUsage {
+  operation: UsageOperation;
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // includes thinking tokens, which are billed as output
+  images: number;
+}
+
+export interface UsageRecord extends CallUsage {
+  id: string;
+  at: number;
+  cost: number; // USD, priced when recorded so later price edits do not rewrite history
+  projectId?: string;
+  label?: string; // file or project name, kept so deleted projects still read sensibly
+}
+
+// USD. Image models bill generated images per image instead of per output token.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  [ANALYSIS_MODEL]: { inputPerMillion: 0.5, outputPerMillion: 3, perImage: 0 },
+  [THUMBNAIL_MODEL]: { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 }
+};
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  monthlyLimit: number | null; // USD; null means no budget
+  mode: BudgetMode;
+}
+
+export const DEFAULT_BUDGET: BudgetSettings = { monthlyLimit: null, mode: 'warn' };
+
+export interface BudgetCheck {
+  status: 'ok' | 'warn' | 'block';
+  spent: number; // this calendar month so far, including runs still in flight
+  estimate: number; // the run about to start
+  limit: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown, what: string) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save ${what}`, err);
+  }
+};
+
+// Stored entries override the defaults per model, so new default models still show up.
+export const loadPriceTable = (): PriceTable => ({ ...DEFAULT_PRICES, ...readJson<PriceTable>(PRICES_KEY, {}) });
+
+export const savePriceTable = (prices: PriceTable) => writeJson(PRICES_KEY, prices, "price table");
+
+export const loadBudget = (): BudgetSettings => ({ ...DEFAULT_BUDGET, ...readJson<Partial<BudgetSettings>>(BUDGET_KEY, {}) });
+
+export const saveBudget = (budget: BudgetSettings) => writeJson(BUDGET_KEY, budget, "budget");
+
+// Models missing from the table cost nothing, e.g. the mock provider until it is given a price.
+export const priceCall = (usage: CallUsage, prices: PriceTable = loadPriceTable()): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+    + usage.images * price.perImage;
+};
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals => records.reduce<UsageTotals>((totals, record) => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + record.inputTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  images: totals.images + record.images,
+  cost: totals.cost + record.cost
+}), { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+
+export const monthKey = (at: number) => {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const recordsInMonth = (records: UsageRecord[], month = monthKey(Date.now())) =>
+  records.filter(record => monthKey(record.at) === month);
+
+// Observable ledger, read by React through useSyncExternalStore like the job queue, so
+// `getRecords` returns the same array until something is recorded.
+export class UsageLedger {
+  private records: UsageRecord[] = readJson<UsageRecord[]>(LEDGER_KEY, []);
+  private listeners = new Set<() => void>();
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getRecords = () => this.records;
+
+  record(usage: CallUsage, context: { projectId?: string; label?: string } = {}): UsageRecord {
+    const now = Date.now();
+    const entry: UsageRecord = { ...usage, ...context, id: createProjectId(), at: now, cost: priceCall(usage) };
+    this.records = [...this.records.filter(r => now - r.at < LEDGER_RETENTION_MS), entry];
+    writeJson(LEDGER_KEY, this.records, "usage ledger");
+    this.listeners.forEach(listener => listener());
+    return entry;
+  }
+
+  clear() {
+    this.records = [];
+    writeJson(LEDGER_KEY, this.records, "usage ledger");
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const usageLedger = new UsageLedger();
+
+// The `onUsage` request option for calls made on behalf of one project or file.
+export const trackUsage = (context: { projectId?: string; label?: string }) =>
+  (usage: CallUsage) => { usageLedger.record(usage, context); };
+
+// Gemini samples video at about 1 fps: ~258 tokens per frame plus ~32 per second of audio.
+const VIDEO_TOKENS_PER_SECOND = 290;
+const PROMPT_TOKENS = 2500;
+// Transcript and timed captions dominate the output, at roughly 8 tokens per spoken second.
+const OUTPUT_TOKENS_PER_SECOND = 8;
+const BASE_OUTPUT_TOKENS = 3000;
+// Used when the browser cannot read the duration: assumes roughly 8 Mbps footage.
+const BYTES_PER_SECOND_GUESS = 1024 * 1024;
+
+export const estimateThumbnailCost = (prices: PriceTable = loadPriceTable()): number =>
+  priceCall({ operation: 'thumbnail', model: THUMBNAIL_MODEL, inputTokens: 100, outputTokens: 0, images: 1 }, prices);
+
+// What a full run (analysis plus one thumbnail) is expected to cost at today's prices.
+export const estimateRunCost = (durationSeconds: number | null, fileSize: number, prices: PriceTable = loadPriceTable()): number => {
+  const seconds = durationSeconds ?? fileSize / BYTES_PER_SECOND_GUESS;
+  return priceCall({
+    operation: 'analysis',
+    model: ANALYSIS_MODEL,
+    inputTokens: Math.round(PROMPT_TOKENS + seconds * VIDEO_TOKENS_PER_SECOND),
+    outputTokens: Math.round(BASE_OUTPUT_TOKENS + seconds * OUTPUT_TOKENS_PER_SECOND),
+    images: 0
+  }, prices) + estimateThumbnailCost(prices);
+};
+
+// Would this run take the month over budget? Without a budget every run is fine. `reserved` is
+// what runs already in flight are expected to spend on top of what the ledger has recorded.
+export const checkBudget = (estimate: number, budget: BudgetSettings = loadBudget(), records: UsageRecord[] = usageLedger.getRecords(), reserved = 0): BudgetCheck => {
+  const spent = sumUsage(recordsInMonth(records)).cost + reserved;
+  const limit = budget.monthlyLimit;
+  const status = limit !== null && spent + estimate > limit ? budget.mode : 'ok';
+  return { status, spent, estimate, limit };
+};
+
+export const budgetMessage = (check: BudgetCheck) =>
+  `This run costs about ${formatCost(check.estimate)} and would take this month's spend from ${formatCost(check.spent)} past the ${formatCost(check.limit ?? 0)} budget.`;
+
+// Sub-cent costs are common, so small amounts keep more digits.
+export const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(usd < 0.01 && usd > 0 ? 4 : 3) : usd.toFixed(2)}`;
+
+export const formatTokens = (count: number) =>
+  count >= 1_000_000 ? `${(count / 1_000_000).toFixed(2)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
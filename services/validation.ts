@@ -0,0 +1,239 @@
+import { Chapter, Highlight, PlatformId, TitleOption, TranscriptSegment, VideoAnalysis } from "../types";
+import { AnalysisError } from "./errors";
+import { CopyLimits, getPlatform, platformsOf, titleLimitsFor, trimToLimits } from "./platforms";
+import { checkChapters, fixChapters, supportsChapters, transcriptDuration } from "../utils/chapters";
+import { fixHighlight, MAX_HIGHLIGHTS, supportsHighlights } from "../utils/highlights";
+
+// Top-level pieces of the analysis that can be validated and re-requested on their own.
+export type AnalysisSection = 'transcription' | 'segments' | 'chapters' | 'highlights' | 'trendingKeywords' | 'titles' | 'descriptions' | 'thumbnailConcept';
+
+// Sections the results view cannot render without. Optional ones fall back to empty values.
+export const REQUIRED_SECTIONS: AnalysisSection[] = ['transcription', 'titles', 'descriptions', 'thumbnailConcept'];
+
+export const MAX_TITLES = 5;
+
+export interface ValidationResult {
+  analysis: VideoAnalysis;
+  invalid: AnalysisSection[];
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const nonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// The object entries of a model array; anything else in it is dropped.
+const objectsIn = (value: unknown): Record<string, unknown>[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+const stringsIn = (value: unknown): string[] => Array.isArray(value) ? value.filter(nonEmptyString) : [];
+
+// Closes strings, arrays and objects left open by a truncated response, dropping any
+// dangling key or trailing comma. Returns null when nothing parseable can be recovered.
+export const repairTruncatedJson = (text: string): string | null => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+
+  let repaired = inString ? `${text}"` : text;
+  repaired = repaired.replace(/,\s*$/, '').replace(/,?\s*"[^"]*"\s*:\s*$/, '');
+  const candidate = repaired + stack.reverse().join('');
+  try {
+    JSON.parse(candidate);
+    return candidate;
+  } catch {
+    return null;
+  }
+};
+
+// `repaired` is set when the JSON had to be closed locally, i.e. the response was cut off.
+export const readModelJson = (text: string | undefined): { data: unknown; repaired: boolean } => {
+  const trimmed = (text || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!trimmed) throw new AnalysisError('MALFORMED_RESPONSE', "The AI returned an empty response. Please try again.");
+  try {
+    return { data: JSON.parse(trimmed), repaired: false };
+  } catch (err) {
+    const repaired = repairTruncatedJson(trimmed);
+    if (repaired) return { data: JSON.parse(repaired), repaired: true };
+    throw new AnalysisError('MALFORMED_RESPONSE', "The AI response could not be read. Please try again.", err instanceof Error ? err.message : String(err));
+  }
+};
+
+export const parseModelJson = (text: string | undefined): unknown => readModelJson(text).data;
+
+const normalizeTitles = (value: unknown, limits?: CopyLimits): TitleOption[] => {
+  const seen = new Set<string>();
+  const titles = objectsIn(value)
+    .flatMap((t, idx) => nonEmptyString(t.text) ? [{
+      text: limits ? trimToLimits(t.text.trim(), limits) : t.text.trim(),
+      rank: Number.isFinite(Number(t.rank)) ? Number(t.rank) : Number.MAX_SAFE_INTEGER,
+      reasoning: typeof t.reasoning === 'string' ? t.reasoning.trim() : '',
+      order: idx
+    }] : [])
+    .filter(t => {
+      const key = t.text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  // Ties and missing ranks keep the model's original order; ranks are then re-issued as 1..n.
+  return titles
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .slice(0, MAX_TITLES)
+    .map(({ text, reasoning }, idx) => ({ text, reasoning, rank: idx + 1 }));
+};
+
+const normalizeSegments = (value: unknown): TranscriptSegment[] => objectsIn(value)
+  .flatMap(s => nonEmptyString(s.text) && Number.isFinite(Number(s.start)) ? [{
+    start: Number(s.start),
+    end: Number.isFinite(Number(s.end)) ? Number(s.end) : Number(s.start),
+    speaker: typeof s.speaker === 'string' ? s.speaker : '',
+    text: s.text.trim()
+  }] : []);
+
+const normalizeChapters = (value: unknown): Chapter[] => objectsIn(value)
+  .flatMap(c => nonEmptyString(c.title) && Number.isFinite(Number(c.start)) ? [{ start: Number(c.start), title: c.title.trim() }] : []);
+
+// Ranked like titles; clips are fitted to the video and the length limits, and clips that start
+// within a second of a better-ranked one are dropped as duplicates.
+const normalizeHighlights = (value: unknown, duration = 0): Highlight[] => {
+  const titleLimits = getPlatform('shorts').titleLimits;
+  const highlights = objectsIn(value)
+    .flatMap((h, idx) => nonEmptyString(h.hook) && nonEmptyString(h.title) && Number.isFinite(Number(h.start)) && Number.isFinite(Number(h.end)) ? [{
+      highlight: fixHighlight({
+        start: Number(h.start),
+        end: Number(h.end),
+        rank: Number.isFinite(Number(h.rank)) ? Number(h.rank) : Number.MAX_SAFE_INTEGER,
+        hook: h.hook.trim(),
+        reason: typeof h.reason === 'string' ? h.reason.trim() : '',
+        title: titleLimits ? trimToLimits(h.title.trim(), titleLimits) : h.title.trim()
+      }, duration),
+      order: idx
+    }] : [])
+    .sort((a, b) => a.highlight.rank - b.highlight.rank || a.order - b.order)
+    .map(({ highlight }) => highlight);
+
+  const kept: Highlight[] = [];
+  for (const highlight of highlights) {
+    if (kept.length >= MAX_HIGHLIGHTS) break;
+    if (kept.every(k => Math.abs(k.start - highlight.start) >= 1)) kept.push(highlight);
+  }
+  return kept.map((highlight, idx) => ({ ...highlight, rank: idx + 1 }));
+};
+
+// Best-effort read of a response that is still streaming in: whatever has arrived so far,
+// without validation or repair requests. Null until enough text has arrived to parse.
+export const previewAnalysis = (text: string): Partial<VideoAnalysis> | null => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '');
+  const repaired = trimmed ? repairTruncatedJson(trimmed) : null;
+  if (!repaired) return null;
+  const data = JSON.parse(repaired);
+  if (!isObject(data)) return null;
+
+  const preview: Partial<VideoAnalysis> = {};
+  if (typeof data.transcription === 'string') preview.transcription = data.transcription;
+  if (Array.isArray(data.segments)) preview.segments = normalizeSegments(data.segments);
+  if (Array.isArray(data.chapters)) preview.chapters = normalizeChapters(data.chapters);
+  if (Array.isArray(data.highlights)) preview.highlights = normalizeHighlights(data.highlights);
+  if (Array.isArray(data.trendingKeywords)) preview.trendingKeywords = stringsIn(data.trendingKeywords);
+  if (Array.isArray(data.titles)) preview.titles = normalizeTitles(data.titles);
+  if (isObject(data.descriptions)) {
+    preview.descriptions = Object.fromEntries(Object.entries(data.descriptions).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  }
+  return preview;
+};
+
+// Checks a raw model payload against VideoAnalysis, repairing what can be repaired locally
+// and reporting which sections need to be requested again. Sources and other grounding
+// fields are not part of the model JSON and are carried over untouched. Platform copy and
+// titles that break a platform's hard limits are trimmed to fit.
+export const validateAnalysis = (raw: unknown, base: Partial<VideoAnalysis> = {}, platforms: PlatformId[] = platformsOf(base)): ValidationResult => {
+  const data = isObject(raw) ? raw : {};
+  const invalid: AnalysisSection[] = [];
+
+  const segments = normalizeSegments(data.segments ?? base.segments);
+  let transcription = nonEmptyString(data.transcription) ? data.transcription : base.transcription || '';
+  if (!nonEmptyString(transcription) && segments.length > 0) transcription = segments.map(s => s.text).join(' ');
+  if (!nonEmptyString(transcription)) invalid.push('transcription');
+  if (segments.length === 0) invalid.push('segments');
+
+  // Chapters are auto-fixed against the transcript length. They only count as invalid when the
+  // video is long enough to have chapters at all.
+  const duration = transcriptDuration(segments);
+  const chapters = fixChapters(normalizeChapters(data.chapters ?? base.chapters), duration);
+  if (supportsChapters(duration) && checkChapters(chapters, duration).length > 0) invalid.push('chapters');
+
+  const highlights = normalizeHighlights(data.highlights ?? base.highlights, duration);
+  if (supportsHighlights(duration) && highlights.length === 0) invalid.push('highlights');
+
+  const rawKeywords = Array.isArray(data.trendingKeywords) ? stringsIn(data.trendingKeywords) : base.trendingKeywords || [];
+  const trendingKeywords = Array.from(new Set(rawKeywords.filter(nonEmptyString).map(k => k.trim())));
+  if (trendingKeywords.length === 0) invalid.push('trendingKeywords');
+
+  const titles = normalizeTitles(data.titles ?? base.titles, titleLimitsFor(platforms));
+  if (titles.length === 0) invalid.push('titles');
+
+  // Merged per platform so a repair response only has to fill the platforms that were missing.
+  const rawDescriptions = isObject(data.descriptions) ? data.descriptions : {};
+  const descriptions: Partial<Record<PlatformId, string>> = {};
+  for (const id of platforms) {
+    const candidate = rawDescriptions[id];
+    const text = nonEmptyString(candidate) ? candidate : base.descriptions?.[id];
+    if (nonEmptyString(text)) descriptions[id] = trimToLimits(text.trim(), getPlatform(id).limits);
+  }
+  if (platforms.some(id => !descriptions[id])) invalid.push('descriptions');
+
+  const rawConcept: Record<string, unknown> = isObject(data.thumbnailConcept) ? data.thumbnailConcept : { ...base.thumbnailConcept };
+  const idea = nonEmptyString(rawConcept.idea) ? rawConcept.idea : '';
+  const thumbnailConcept = { idea, prompt: nonEmptyString(rawConcept.prompt) ? rawConcept.prompt : idea };
+  if (!thumbnailConcept.prompt) invalid.push('thumbnailConcept');
+
+  return {
+    analysis: {
+      ...base,
+      sources: base.sources || [],
+      transcription,
+      segments,
+      chapters,
+      highlights,
+      trendingKeywords,
+      titles,
+      descriptions,
+      thumbnailConcept
+    },
+    invalid
+  };
+};
+
+const SECTION_LABELS: Record<AnalysisSection, string> = {
+  transcription: 'transcription',
+  segments: 'timed captions',
+  chapters: 'chapters',
+  highlights: 'highlight clips',
+  trendingKeywords: 'trending keywords',
+  titles: 'titles',
+  descriptions: 'descriptions',
+  thumbnailConcept: 'thumbnail concept'
+};
+
+// Throws when a required section is still missing after repair attempts.
+export const assertComplete = (result: ValidationResult): VideoAnalysis => {
+  const missing = result.invalid.filter(s => REQUIRED_SECTIONS.includes(s));
+  if (missing.length > 0) {
+    throw new AnalysisError(
+      'INCOMPLETE_RESPONSE',
+      `The AI response was missing ${missing.map(s => SECTION_LABELS[s]).join(', ')}. Please try again.`
+    );
+  }
+  return result.analysis;
+};
@@ -5,26 +5,155 @@ export interface TitleOption {
   reasoning: string;
 }
 
+export interface TranscriptSegment {
+  start: number; // seconds from 00:00
+  end: number; // seconds from 00:00
+  speaker: string;
+  text: string;
+}
+
+// A YouTube chapter. Titles are shown in the player's progress bar.
+export interface Chapter {
+  start: number; // seconds from 00:00
+  title: string;
+}
+
+// A self-contained moment that can be cut into a vertical Short, ranked by how likely it is to travel.
+export interface Highlight {
+  start: number; // seconds from 00:00
+  end: number; // seconds from 00:00
+  rank: number; // 1 (best) upward
+  hook: string; // the line that opens the clip
+  reason: string; // why the moment should perform
+  title: string; // suggested title for the vertical clip
+}
+
+// Which grounding sources back a trending keyword. An empty `sources` list means the
+// keyword was not supported by any search result.
+export interface KeywordSupport {
+  keyword: string;
+  sources: number[]; // indexes into VideoAnalysis.sources
+}
+
 export interface VideoAnalysis {
+  locale?: string; // language code of a localized variant; unset on the source-language result
   transcription: string;
+  segments: TranscriptSegment[];
+  chapters?: Chapter[]; // validated against YouTube's chapter rules; absent on projects saved before chapters existed
+  highlights?: Highlight[]; // Shorts candidates; absent on projects saved before highlights existed
   trendingKeywords: string[];
-  sources: { title: string; uri: string }[];
+  sources: { title: string; uri: string }[]; // filled from search grounding metadata, never from model JSON
+  keywordSupport?: KeywordSupport[];
+  searchQueries?: string[];
   titles: TitleOption[];
-  descriptions: {
-    youtube: string;
-    instagram: string;
-  };
+  descriptions: Partial<Record<PlatformId, string>>; // one entry per platform the copy was generated for
   thumbnailConcept: {
     idea: string;
     prompt: string;
   };
 }
 
-export enum AppState {
-  IDLE = 'IDLE',
-  UPLOADING = 'UPLOADING',
-  ANALYZING = 'ANALYZING',
-  GENERATING_THUMBNAIL = 'GENERATING_THUMBNAIL',
-  COMPLETED = 'COMPLETED',
-  ERROR = 'ERROR'
+// Publishing targets with their own copy field. See services/platforms.ts for limits.
+export type PlatformId = 'youtube' | 'shorts' | 'instagram' | 'tiktok' | 'x' | 'linkedin' | 'facebook';
+
+export type ThumbnailAspectRatio = "16:9" | "9:16" | "1:1" | "4:5";
+
+// Copy sections that can be edited in place and regenerated on their own.
+export type EditableSection = 'titles' | PlatformId;
+
+export interface GeneratedThumbnail {
+  id: string;
+  url: string; // data URL
+  prompt: string;
+  aspectRatio: ThumbnailAspectRatio;
+  createdAt: number;
+  picked?: boolean; // shortlisted for A/B thumbnail testing
+  frameTime?: number; // seconds into the video of the frame used as reference or background
+}
+
+// A completed run as stored in the local project library.
+export interface Project {
+  id: string;
+  name: string;
+  fileName: string;
+  contentHash: string;
+  createdAt: number;
+  updatedAt: number;
+  analysis: VideoAnalysis;
+  localizations?: Record<string, VideoAnalysis>; // keyed by locale code
+  thumbnails: GeneratedThumbnail[];
+  profileId?: string; // channel profile the copy was written for
 }
+
+// A channel's brand voice. Shapes analysis, regeneration and thumbnail prompts, and generated
+// copy is checked against its banned words and required hashtags.
+export interface ChannelProfile {
+  id: string;
+  name: string;
+  tone: string; // free-form voice description, e.g. "calm, practical, no hype"
+  bannedWords: string[];
+  requiredHashtags: string[]; // stored with the leading "#"
+  ctaLinks: string[];
+  nicheKeywords: string[];
+  thumbnailStyle: string;
+  exampleTitles: string[]; // past titles that performed well, used as style references
+}
+
+// Thumbnail editor layers. Positions and sizes are fractions of the canvas so a layout
+// survives switching between export resolutions.
+export interface TextLayer {
+  id: string;
+  kind: 'text';
+  text: string;
+  x: number; // centre, 0..1
+  y: number; // centre, 0..1
+  fontFamily: string;
+  fontSize: number; // fraction of canvas height
+  fontWeight: number;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number; // fraction of font size
+  shadowColor: string;
+  shadowBlur: number; // px at 1080p
+  uppercase: boolean;
+}
+
+export interface ImageLayer {
+  id: string;
+  kind: 'image';
+  src: string; // data URL
+  x: number;
+  y: number;
+  width: number; // fraction of canvas width
+  opacity: number;
+}
+
+export type EditorLayer = TextLayer | ImageLayer;
+
+export interface BrandPreset {
+  id: string;
+  name: string;
+  text: Omit<TextLayer, 'id' | 'kind' | 'text' | 'x' | 'y'>;
+  logo?: Omit<ImageLayer, 'id' | 'kind'>;
+}
+
+export type JobStatus = 'queued' | 'uploading' | 'analyzing' | 'thumbnail' | 'done' | 'failed';
+
+// One video in the batch queue. Each job tracks its own lifecycle independently of the single-file flow.
+export interface AnalysisJob {
+  id: string;
+  file: File;
+  status: JobStatus;
+  progress: number; // 0..1 within the current status
+  message: string;
+  attempts: number;
+  error?: string;
+  project?: Project;
+  cached?: boolean; // result came from the library instead of a new analysis
+  addedAt: number;
+}
+
+// Small clips are sent inline as base64; larger ones are uploaded to the Files API first.
+export type VideoSource =
+  | { kind: 'inline'; data: string; mimeType: string }
+  | { kind: 'file'; uri: string; mimeType: string };
@@ -0,0 +1,73 @@
+import { Project, VideoAnalysis } from "../types";
+import { getPlatform, sortPlatforms } from "../services/platforms";
+import { formatChapterList } from "./chapters";
+import { formatRange } from "./highlights";
+import { localeLabel } from "./locales";
+
+// Markdown treats a leading "#" as a heading, which breaks hashtag-heavy captions; quote copy as blocks.
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+const copySection = (analysis: VideoAnalysis, headingLevel: string) => {
+  const lines: string[] = [];
+  lines.push(`${headingLevel} Titles`, '');
+  [...analysis.titles].sort((a, b) => a.rank - b.rank).forEach(t => {
+    lines.push(`${t.rank}. **${t.text}**${t.reasoning ? ` — ${t.reasoning}` : ''}`);
+  });
+  lines.push('');
+  for (const id of sortPlatforms(Object.keys(analysis.descriptions))) {
+    const platform = getPlatform(id);
+    lines.push(`${headingLevel} ${platform.label} ${platform.fieldLabel.toLowerCase()}`, '', quote(analysis.descriptions[id] || ''), '');
+  }
+  if (analysis.chapters?.length) {
+    lines.push(`${headingLevel} Chapters`, '', '```', formatChapterList(analysis.chapters), '```', '');
+  }
+  if (analysis.highlights?.length) {
+    lines.push(`${headingLevel} Shorts highlights`, '');
+    analysis.highlights.forEach(h => {
+      lines.push(`${h.rank}. **${h.title}** (${formatRange(h)}) — "${h.hook}"${h.reason ? ` ${h.reason}` : ''}`);
+    });
+    lines.push('');
+  }
+  return lines;
+};
+
+// Readable brief for editors and clients: everything needed to publish, without the raw JSON.
+export const buildMarkdownBrief = (project: Project): string => {
+  const { analysis } = project;
+  const support = analysis.keywordSupport || analysis.trendingKeywords.map(keyword => ({ keyword, sources: [] as number[] }));
+  const lines: string[] = [
+    `# ${project.name}`,
+    '',
+    `Source file: \`${project.fileName}\` · Created ${new Date(project.createdAt).toLocaleString()}`,
+    '',
+    ...copySection(analysis, '##'),
+    '## Trending keywords',
+    '',
+    ...support.map(({ keyword, sources }) => `- ${keyword}${sources.length ? ` (sources ${sources.map(i => `[${i + 1}]`).join(' ')})` : ' (not grounded)'}`),
+    ''
+  ];
+
+  if (analysis.sources.length > 0) {
+    lines.push('## Sources', '', ...analysis.sources.map((s, i) => `${i + 1}. [${s.title}](${s.uri})`), '');
+  }
+
+  lines.push(
+    '## Thumbnail concept',
+    '',
+    analysis.thumbnailConcept.idea,
+    '',
+    `Prompt: ${analysis.thumbnailConcept.prompt}`,
+    ''
+  );
+
+  if (project.thumbnails.length > 0) {
+    const picked = project.thumbnails.filter(t => t.picked).length;
+    lines.push(`${project.thumbnails.length} thumbnail(s) in \`thumbnails/\`${picked ? `, ${picked} shortlisted for A/B testing` : ''}.`, '');
+  }
+
+  for (const [locale, variant] of Object.entries(project.localizations || {})) {
+    lines.push(`## ${localeLabel(locale)}`, '', ...copySection(variant, '###'));
+  }
+
+  return lines.join('\n');
+};
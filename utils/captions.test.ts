@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { normalizeSegments, toSrt } from "./captions";
+
+const segment = (start: number, end: number, text: string, speaker = "") => ({ start, end, text, speaker });
+
+const assertNoOverlap = (segments: ReturnType<typeof normalizeSegments>) => {
+  segments.forEach((s, idx) => {
+    expect(s.end).toBeGreaterThan(s.start);
+    const next = segments[idx + 1];
+    if (next) expect(s.end).toBeLessThanOrEqual(next.start);
+  });
+};
+
+describe("normalizeSegments", () => {
+  it("sorts cues and trims each one to the start of the next", () => {
+    const result = normalizeSegments([segment(5, 9, "second"), segment(0, 6, "first")]);
+    expect(result.map(s => s.text)).toEqual(["first", "second"]);
+    expect(result[0].end).toBe(5);
+  });
+
+  it("drops empty cues and gives zero-length cues a duration", () => {
+    const result = normalizeSegments([segment(0, 0, "hello"), segment(1, 2, "   ")]);
+    expect(result).toHaveLength(1);
+    expect(result[0].end).toBe(2);
+  });
+
+  it("shifts cues that share a start time so they never overlap", () => {
+    const result = normalizeSegments([
+      segment(3, 6, "one", "A"),
+      segment(3, 5, "two", "B"),
+      segment(3, 4, "three", "A"),
+      segment(3.05, 7, "four")
+    ]);
+    expect(result.map(s => s.text)).toEqual(["one", "two", "three", "four"]);
+    expect(new Set(result.map(s => s.start)).size).toBe(result.length);
+    assertNoOverlap(result);
+  });
+
+  it("writes non-overlapping SRT cues for same-start segments", () => {
+    const srt = toSrt([segment(1, 4, "first"), segment(1, 4, "second")]);
+    expect(srt).toContain("00:00:01,000 --> 00:00:01,100");
+    expect(srt).toContain("00:00:01,100 --> 00:00:04,000");
+  });
+});
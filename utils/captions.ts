@@ -0,0 +1,124 @@
+import { TranscriptSegment } from "../types";
+
+export type CaptionFormat = "srt" | "vtt" | "txt";
+
+const MAX_LINE_LENGTH = 42;
+const MAX_LINES_PER_CUE = 2;
+const MIN_CUE_SECONDS = 0.1;
+
+const pad = (value: number, size = 2) => String(value).padStart(size, '0');
+
+// Caption timestamps are HH:MM:SS plus milliseconds. SRT uses a comma separator, WebVTT a dot.
+export const formatTimestamp = (seconds: number, separator: ',' | '.' = ','): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+// Short MM:SS (or H:MM:SS) label used in the UI and the plain caption sheet.
+export const formatClock = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+};
+
+// Model output is not guaranteed to be ordered or well-formed, so sort, drop empty cues
+// and make sure every cue has a positive duration that does not run into the next one.
+// Cues sharing a start time are nudged apart so players never stack them.
+export const normalizeSegments = (segments: TranscriptSegment[] = []): TranscriptSegment[] => {
+  const sorted = segments
+    .filter(s => s && typeof s.text === 'string' && s.text.trim().length > 0)
+    .map(s => ({
+      start: Math.max(0, Number(s.start) || 0),
+      end: Math.max(0, Number(s.end) || 0),
+      speaker: (s.speaker || '').trim(),
+      text: s.text.replace(/\s+/g, ' ').trim()
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const cleaned: TranscriptSegment[] = [];
+  for (const segment of sorted) {
+    const prev = cleaned[cleaned.length - 1];
+    const start = prev ? Math.max(segment.start, Math.round((prev.start + MIN_CUE_SECONDS) * 1000) / 1000) : segment.start;
+    cleaned.push({ ...segment, start });
+  }
+
+  return cleaned.map((segment, idx) => {
+    const next = cleaned[idx + 1];
+    let end = segment.end > segment.start ? segment.end : segment.start + 2;
+    if (next && end > next.start) end = next.start;
+    return { ...segment, end };
+  });
+};
+
+// Greedy word wrap so each cue fits the usual on-screen caption width.
+export const wrapCaptionText = (text: string, maxLength = MAX_LINE_LENGTH): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    if (current && (current + ' ' + word).length > maxLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+export const toSrt = (segments: TranscriptSegment[]): string => {
+  return normalizeSegments(segments)
+    .map((segment, idx) => {
+      const label = segment.speaker ? `${segment.speaker}: ` : '';
+      return [
+        String(idx + 1),
+        `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+        wrapCaptionText(label + segment.text).join('\n')
+      ].join('\n');
+    })
+    .join('\n\n') + '\n';
+};
+
+export const toVtt = (segments: TranscriptSegment[]): string => {
+  const cues = normalizeSegments(segments).map(segment => {
+    // WebVTT voice spans carry the speaker label without printing it in the caption text.
+    const body = wrapCaptionText(segment.text).join('\n');
+    return [
+      `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}`,
+      segment.speaker ? `<v ${segment.speaker.replace(/>/g, '')}>${body}` : body
+    ].join('\n');
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+// Plain sheet for editors burning captions in by hand: one short block per cue,
+// at most two lines each, with no speaker labels.
+export const toPlainCaptions = (segments: TranscriptSegment[]): string => {
+  return normalizeSegments(segments)
+    .flatMap(segment => {
+      const lines = wrapCaptionText(segment.text, 32);
+      const blocks: string[] = [];
+      for (let i = 0; i < lines.length; i += MAX_LINES_PER_CUE) {
+        blocks.push(lines.slice(i, i + MAX_LINES_PER_CUE).join('\n'));
+      }
+      return blocks.map(block => `[${formatClock(segment.start)}]\n${block}`);
+    })
+    .join('\n\n') + '\n';
+};
+
+export const buildCaptionFile = (segments: TranscriptSegment[], format: CaptionFormat): { content: string; mimeType: string } => {
+  switch (format) {
+    case "srt":
+      return { content: toSrt(segments), mimeType: "application/x-subrip" };
+    case "vtt":
+      return { content: toVtt(segments), mimeType: "text/vtt" };
+    default:
+      return { content: toPlainCaptions(segments), mimeType: "text/plain" };
+  }
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { formatChapterList, insertChapters, insertChaptersWithin } from "./chapters";
+
+const CHAPTERS = [{ start: 0, title: "Intro" }, { start: 30, title: "Setup" }, { start: 90, title: "Results" }];
+const LIST = formatChapterList(CHAPTERS);
+
+describe("insertChapters", () => {
+  it("replaces the first run of timestamp lines, or appends the list", () => {
+    expect(insertChapters("Hello\n0:00 Old\n1:00 Older\nBye", CHAPTERS)).toBe(`Hello\n${LIST}\nBye`);
+    expect(insertChapters("Hello  ", CHAPTERS)).toBe(`Hello\n\n${LIST}`);
+  });
+});
+
+describe("insertChaptersWithin", () => {
+  it("leaves a description that fits exactly as insertChapters would", () => {
+    expect(insertChaptersWithin("Hello\n0:00 Old\nBye", CHAPTERS, { maxChars: 200 })).toBe(`Hello\n${LIST}\nBye`);
+  });
+
+  it("shortens the text around the list, never the list itself", () => {
+    const body = "This sentence is long enough to matter. ".repeat(10);
+    const result = insertChaptersWithin(`${body}\n0:00 Old`, CHAPTERS, { maxChars: 120 });
+    expect(Array.from(result).length).toBeLessThanOrEqual(120);
+    expect(result.endsWith(LIST)).toBe(true);
+    expect(result).not.toContain("Old");
+  });
+});
@@ -0,0 +1,94 @@
+import { Chapter, TranscriptSegment } from "../types";
+import { countChars, CopyLimits, trimToLimits } from "../services/platforms";
+import { formatClock } from "./captions";
+
+// YouTube only turns timestamps into chapters when the list starts at 00:00, has at least
+// three entries and every chapter (including the last) runs for at least ten seconds.
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_SECONDS = 10;
+
+// Best available length when the video itself is not loaded: where the last caption ends.
+export const transcriptDuration = (segments: TranscriptSegment[] = []) =>
+  segments.reduce((max, s) => Math.max(max, Number(s.end) || 0, Number(s.start) || 0), 0);
+
+// Videos shorter than this cannot satisfy the rules at all.
+export const supportsChapters = (duration: number) => !duration || duration >= MIN_CHAPTERS * MIN_CHAPTER_SECONDS;
+
+// Each problem that would stop YouTube from showing the chapters. Empty means valid.
+export const checkChapters = (chapters: Chapter[], duration = 0): string[] => {
+  const issues: string[] = [];
+  if (chapters.length === 0) return ["No chapters yet."];
+  if (chapters[0].start !== 0) issues.push("The first chapter must start at 00:00.");
+  if (chapters.length < MIN_CHAPTERS) issues.push(`YouTube needs at least ${MIN_CHAPTERS} chapters.`);
+  chapters.forEach((chapter, idx) => {
+    const next = chapters[idx + 1];
+    if (!chapter.title.trim()) issues.push(`The chapter at ${formatClock(chapter.start)} has no title.`);
+    if (next && next.start <= chapter.start) issues.push(`Chapters must be in ascending order (see ${formatClock(next.start)}).`);
+    if (duration && chapter.start >= duration) issues.push(`"${chapter.title}" starts after the video ends.`);
+    const end = next ? next.start : duration;
+    if (end && end > chapter.start && end - chapter.start < MIN_CHAPTER_SECONDS) {
+      issues.push(`"${chapter.title}" is only ${Math.round(end - chapter.start)}s long; chapters need at least ${MIN_CHAPTER_SECONDS}s.`);
+    }
+  });
+  return issues;
+};
+
+// Repairs what can be repaired: sorts, drops untitled or out-of-range entries, moves or adds
+// the first chapter at 00:00 and folds chapters that are too short into the one before.
+// The result can still be invalid (e.g. fewer than three chapters); run checkChapters on it.
+export const fixChapters = (chapters: Chapter[], duration = 0): Chapter[] => {
+  const cleaned = chapters
+    .map(c => ({ start: Math.max(0, Math.floor(Number(c.start) || 0)), title: (c.title || '').trim() }))
+    .filter(c => c.title && (!duration || c.start < duration))
+    .sort((a, b) => a.start - b.start)
+    .filter((c, idx, all) => idx === 0 || c.start !== all[idx - 1].start);
+  if (cleaned.length === 0) return [];
+
+  if (cleaned[0].start > 0) {
+    if (cleaned[0].start < MIN_CHAPTER_SECONDS) cleaned[0] = { ...cleaned[0], start: 0 };
+    else cleaned.unshift({ start: 0, title: "Intro" });
+  }
+
+  const fixed: Chapter[] = [];
+  for (const chapter of cleaned) {
+    const previous = fixed[fixed.length - 1];
+    if (previous && chapter.start - previous.start < MIN_CHAPTER_SECONDS) continue;
+    fixed.push(chapter);
+  }
+  while (duration && fixed.length > 1 && duration - fixed[fixed.length - 1].start < MIN_CHAPTER_SECONDS) fixed.pop();
+  return fixed;
+};
+
+// Parses "75", "1:15" or "0:01:15" into seconds; null when the text is not a timestamp.
+export const parseClock = (text: string): number | null => {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+$/.test(p))) return null;
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+export const formatChapterList = (chapters: Chapter[]): string =>
+  chapters.map(c => `${formatClock(c.start)} ${c.title}`).join('\n');
+
+const TIMESTAMP_LINE = /^\s*[\[(]?\d{1,2}:\d{2}(?::\d{2})?[\])]?\s*[-–—:|]?\s*\S/;
+
+// Replaces the first run of timestamp lines in a description with the chapter list, or
+// appends the list when the description has none.
+export const insertChapters = (description: string, chapters: Chapter[]): string => {
+  const list = formatChapterList(chapters);
+  const lines = description.split('\n');
+  const start = lines.findIndex(line => TIMESTAMP_LINE.test(line));
+  if (start < 0) return `${description.trimEnd()}\n\n${list}`;
+  let end = start;
+  while (end < lines.length && TIMESTAMP_LINE.test(lines[end])) end++;
+  return [...lines.slice(0, start), list, ...lines.slice(end)].join('\n');
+};
+
+// insertChapters for a description with a length limit. When the list does not fit, the rest of
+// the description is shortened instead and the list goes at the end, so no chapter is cut off.
+export const insertChaptersWithin = (description: string, chapters: Chapter[], limits: CopyLimits): string => {
+  const inserted = insertChapters(description, chapters);
+  if (countChars(inserted) <= limits.maxChars) return inserted;
+  const body = description.split('\n').filter(line => !TIMESTAMP_LINE.test(line)).join('\n').trim();
+  const room = limits.maxChars - countChars(formatChapterList(chapters)) - 2;
+  return insertChapters(room > 0 ? trimToLimits(body, { ...limits, maxChars: room }) : '', chapters).trim();
+};
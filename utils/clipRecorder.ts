@@ -0,0 +1,124 @@
+import { seek, waitFor } from "./frames";
+
+// Cuts a clip out of the source video without a server or an encoder library: the range is played
+// on a hidden video element, every frame is drawn centre-cropped onto a vertical canvas, and the
+// canvas plus the element's audio are recorded with MediaRecorder. Recording runs in real time,
+// so a 45-second clip takes 45 seconds, and the tab has to stay visible while it runs.
+
+export interface ClipRecording {
+  blob: Blob;
+  extension: "mp4" | "webm";
+}
+
+export interface RecordClipOptions {
+  start: number; // seconds
+  end: number; // seconds
+  width?: number;
+  height?: number;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// 720x1280 keeps real-time canvas drawing smooth on laptops; platforms upscale vertical video anyway.
+const CLIP_WIDTH = 720;
+const CLIP_HEIGHT = 1280;
+const CLIP_FPS = 30;
+const CLIP_BITRATE = 6_000_000;
+
+// MP4 first where the browser can write it (Safari, recent Chromium), since every platform takes it.
+const RECORDER_TYPES = [
+  "video/mp4;codecs=avc1.42E01E,mp4a.40.2",
+  "video/mp4",
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm"
+];
+
+const recorderType = () => typeof MediaRecorder === "undefined" ? undefined : RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const canRecordClips = () => !!recorderType() && typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+const abortError = () => new DOMException("Clip export cancelled", "AbortError");
+
+export const recordVerticalClip = async (file: File, options: RecordClipOptions): Promise<ClipRecording> => {
+  const { start, end, width = CLIP_WIDTH, height = CLIP_HEIGHT, signal, onProgress } = options;
+  const mimeType = recorderType();
+  if (!mimeType) throw new Error("This browser cannot record video. Try a recent Chrome, Edge or Safari.");
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.playsInline = true;
+  video.preload = "auto";
+  // Routing the element through Web Audio gives the recorder an audio track and keeps the export silent.
+  const audio = new AudioContext();
+  let frame = 0;
+
+  try {
+    const loaded = waitFor(video, "loadeddata");
+    video.src = url;
+    await loaded;
+    if (!video.videoWidth) throw new Error("This video could not be decoded in the browser.");
+    await seek(video, start);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d")!;
+    const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+    const cropWidth = width / scale;
+    const cropHeight = height / scale;
+    const sx = (video.videoWidth - cropWidth) / 2;
+    const sy = (video.videoHeight - cropHeight) / 2;
+    const draw = () => ctx.drawImage(video, sx, sy, cropWidth, cropHeight, 0, 0, width, height);
+    draw();
+
+    const destination = audio.createMediaStreamDestination();
+    audio.createMediaElementSource(video).connect(destination);
+    await audio.resume();
+    const stream = new MediaStream([...canvas.captureStream(CLIP_FPS).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: CLIP_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    let onAbort = () => {};
+    let onError = () => {};
+    const finished = new Promise<void>((resolve, reject) => {
+      onAbort = () => reject(abortError());
+      onError = () => reject(new Error("Playback failed while recording the clip."));
+      const tick = () => {
+        if (signal?.aborted) return reject(abortError());
+        draw();
+        onProgress?.(Math.min(1, Math.max(0, (video.currentTime - start) / (end - start))));
+        if (video.currentTime >= end || video.ended) return resolve();
+        frame = requestAnimationFrame(tick);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      video.addEventListener("error", onError, { once: true });
+      frame = requestAnimationFrame(tick);
+    });
+    // If play() throws, `finished` is never awaited; a later abort must not become an unhandled rejection.
+    finished.catch(() => undefined);
+
+    recorder.start(1000);
+    try {
+      await video.play();
+      await finished;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      video.removeEventListener("error", onError);
+      video.pause();
+      if (recorder.state !== "inactive") recorder.stop();
+      await stopped;
+      stream.getTracks().forEach(track => track.stop());
+    }
+    onProgress?.(1);
+    return { blob: new Blob(chunks, { type: mimeType.split(";")[0] }), extension: mimeType.startsWith("video/mp4") ? "mp4" : "webm" };
+  } finally {
+    cancelAnimationFrame(frame);
+    audio.close().catch(() => undefined);
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,15 @@
+import { VideoAnalysis } from "../types";
+import { localeLabel } from "./locales";
+import { getPlatform, sortPlatforms } from "../services/platforms";
+
+// Plain-text bundle of the publishable copy for one language, ready to paste into upload forms.
+export const buildCopySheet = (analysis: VideoAnalysis, name: string): string => {
+  const language = analysis.locale ? localeLabel(analysis.locale) : 'Original';
+  const titles = [...analysis.titles].sort((a, b) => a.rank - b.rank).map(t => `${t.rank}. ${t.text}`);
+  return [
+    `${name} — ${language}`,
+    `TITLES\n${titles.join('\n')}`,
+    ...sortPlatforms(Object.keys(analysis.descriptions)).map(id => `${getPlatform(id).label.toUpperCase()} ${getPlatform(id).fieldLabel.toUpperCase()}\n${analysis.descriptions[id]}`),
+    `TRANSCRIPT\n${analysis.transcription}`
+  ].join('\n\n') + '\n';
+};
@@ -0,0 +1,16 @@
+// Triggers a browser download for an in-memory string, Blob or data URL.
+export const downloadFile = (data: string | Blob, filename: string, mimeType = "text/plain") => {
+  const isUrl = typeof data === 'string' && data.startsWith('data:');
+  const href = isUrl ? (data as string) : URL.createObjectURL(data instanceof Blob ? data : new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  link.click();
+  if (!isUrl) setTimeout(() => URL.revokeObjectURL(href), 1000);
+};
+
+// Turns a free-form name into something safe to use as a file name.
+export const toFileSlug = (name: string, fallback = "VidiGenius") => {
+  const slug = name.replace(/\.[^/.]+$/, '').replace(/[^a-z0-9]+/gi, '-').replace(/^-+|-+$/g, '');
+  return slug || fallback;
+};
@@ -0,0 +1,287 @@
+import { ThumbnailAspectRatio } from "../types";
+import { EXPORT_TARGETS, loadImage } from "./thumbnailCanvas";
+
+// A still pulled from the uploaded video, scored as a thumbnail candidate.
+export interface CandidateFrame {
+  time: number; // seconds into the video
+  url: string; // JPEG data URL
+  sharpness: number; // 0-1, relative to the sharpest sample of the same video
+  sceneChange: number; // 0-1, how different the frame looks from the previous sample
+  faces: number | null; // null when the browser has no face detector
+  focus?: { x: number; y: number }; // centre of the largest face, as canvas fractions
+  score: number;
+}
+
+export interface FrameExtractionOptions {
+  count?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Sampling runs on small frames; only the frames that make the cut are captured at full size.
+const ANALYSIS_WIDTH = 320;
+const CAPTURE_WIDTH = 1280;
+const MAX_SAMPLES = 48;
+const HISTOGRAM_BINS = 32;
+// Some files never fire loadedmetadata (e.g. codecs the browser cannot parse); the duration is then unknown.
+const DURATION_TIMEOUT_MS = 10_000;
+
+// Shape Detection API. Chromium only, and behind a flag on some platforms.
+interface DetectedFace { boundingBox: DOMRectReadOnly }
+interface FaceDetectorLike { detect(source: CanvasImageSource): Promise<DetectedFace[]> }
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+const createFaceDetector = (): FaceDetectorLike | null => {
+  const Detector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  try {
+    return Detector ? new Detector({ fastMode: true, maxDetectedFaces: 5 }) : null;
+  } catch {
+    return null;
+  }
+};
+
+const abortError = () => new DOMException('Frame extraction cancelled', 'AbortError');
+
+export const waitFor = (video: HTMLVideoElement, event: 'loadedmetadata' | 'loadeddata' | 'seeked') => new Promise<void>((resolve, reject) => {
+  const done = () => { video.removeEventListener('error', fail); resolve(); };
+  const fail = () => { video.removeEventListener(event, done); reject(new Error("This video could not be decoded in the browser.")); };
+  video.addEventListener(event, done, { once: true });
+  video.addEventListener('error', fail, { once: true });
+});
+
+export const seek = (video: HTMLVideoElement, time: number) => {
+  const seeked = waitFor(video, 'seeked');
+  video.currentTime = time;
+  return seeked;
+};
+
+const grayscale = (data: Uint8ClampedArray) => {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  return gray;
+};
+
+// Variance of the Laplacian: blurry and motion-smeared frames have few strong edges.
+const laplacianVariance = (gray: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  return n ? sumSq / n - (sum / n) ** 2 : 0;
+};
+
+const histogram = (gray: Float32Array) => {
+  const bins = new Float32Array(HISTOGRAM_BINS);
+  for (const value of gray) bins[Math.min(HISTOGRAM_BINS - 1, Math.floor(value / (256 / HISTOGRAM_BINS)))]++;
+  return bins.map(count => count / gray.length);
+};
+
+// Half the L1 distance between two normalized histograms, so 0 is identical and 1 is disjoint.
+const histogramDistance = (a: Float32Array, b: Float32Array) => a.reduce((sum, value, i) => sum + Math.abs(value - b[i]), 0) / 2;
+
+const meanBrightness = (gray: Float32Array) => gray.reduce((sum, value) => sum + value, 0) / (gray.length || 1);
+
+interface Sample {
+  time: number;
+  sharpness: number;
+  sceneChange: number;
+  brightness: number;
+  faces: number | null;
+  focus?: { x: number; y: number };
+}
+
+const scoreSample = (sample: Sample, maxSharpness: number) => {
+  const sharp = maxSharpness ? sample.sharpness / maxSharpness : 0;
+  const base = sample.faces === null
+    ? 0.6 * sharp + 0.4 * sample.sceneChange
+    : 0.45 * sharp + 0.3 * sample.sceneChange + 0.25 * Math.min(sample.faces, 2) / 2;
+  // Near-black fades and blown-out frames rarely make usable thumbnails.
+  const exposed = sample.brightness > 40 && sample.brightness < 215;
+  return base * (exposed ? 1 : 0.4);
+};
+
+// Duration in seconds from the file's metadata, or null when the browser cannot read it in
+// `timeoutMs` or `signal` aborts first.
+export const readVideoDuration = async (file: File, options: { signal?: AbortSignal; timeoutMs?: number } = {}): Promise<number | null> => {
+  const { signal, timeoutMs = DURATION_TIMEOUT_MS } = options;
+  if (signal?.aborted) return null;
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let giveUp = () => {};
+  try {
+    const loaded = waitFor(video, 'loadedmetadata').then(() => true, () => false);
+    const gaveUp = new Promise<boolean>(resolve => {
+      giveUp = () => resolve(false);
+      timer = setTimeout(giveUp, timeoutMs);
+      signal?.addEventListener('abort', giveUp, { once: true });
+    });
+    video.src = url;
+    if (!await Promise.race([loaded, gaveUp])) return null;
+    return Number.isFinite(video.duration) && video.duration > 0 ? video.duration : null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', giveUp);
+    video.removeAttribute('src');
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Samples the video at even intervals, scores each sample for sharpness, scene change and faces,
+// and returns the best `count` frames (spread across the video) ordered by score.
+export const extractCandidateFrames = async (file: File, options: FrameExtractionOptions = {}): Promise<CandidateFrame[]> => {
+  const { count = 12, signal, onProgress } = options;
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitFor(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0 || !video.videoWidth) {
+      throw new Error("This video could not be decoded in the browser.");
+    }
+
+    const width = ANALYSIS_WIDTH;
+    const height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * width));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    const detector = createFaceDetector();
+
+    const sampleCount = Math.min(MAX_SAMPLES, Math.max(count, Math.floor(duration / 2)));
+    // Skip the very start and end, which are usually fades, titles or end screens.
+    const times = Array.from({ length: sampleCount }, (_, i) => duration * (0.03 + (0.94 * (i + 0.5)) / sampleCount));
+    const total = sampleCount + count;
+    const samples: Sample[] = [];
+    let previous: Float32Array | null = null;
+
+    for (const time of times) {
+      if (signal?.aborted) throw abortError();
+      await seek(video, time);
+      ctx.drawImage(video, 0, 0, width, height);
+      const gray = grayscale(ctx.getImageData(0, 0, width, height).data);
+      const hist = histogram(gray);
+
+      let faces: number | null = null;
+      let focus: Sample['focus'];
+      if (detector) {
+        const found = await detector.detect(canvas).catch(() => [] as DetectedFace[]);
+        faces = found.length;
+        const largest = [...found].sort((a, b) => b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height)[0];
+        if (largest) {
+          const box = largest.boundingBox;
+          focus = { x: (box.x + box.width / 2) / width, y: (box.y + box.height / 2) / height };
+        }
+      }
+
+      samples.push({
+        time,
+        sharpness: laplacianVariance(gray, width, height),
+        sceneChange: previous ? histogramDistance(previous, hist) : 1,
+        brightness: meanBrightness(gray),
+        faces,
+        focus
+      });
+      previous = hist;
+      onProgress?.(samples.length, total);
+    }
+
+    const maxSharpness = Math.max(...samples.map(s => s.sharpness));
+    const ranked = samples
+      .map(sample => ({ ...sample, score: scoreSample(sample, maxSharpness) }))
+      .sort((a, b) => b.score - a.score);
+
+    // Keep picks apart so the grid is not twelve copies of the same shot.
+    const minGap = duration / (count * 2);
+    const picks: typeof ranked = [];
+    for (const sample of ranked) {
+      if (picks.length >= count) break;
+      if (picks.every(p => Math.abs(p.time - sample.time) >= minGap)) picks.push(sample);
+    }
+
+    const capture = document.createElement('canvas');
+    capture.width = Math.min(CAPTURE_WIDTH, video.videoWidth);
+    capture.height = Math.round((video.videoHeight / video.videoWidth) * capture.width);
+    const captureCtx = capture.getContext('2d')!;
+    const frames: CandidateFrame[] = [];
+    for (const pick of picks) {
+      if (signal?.aborted) throw abortError();
+      await seek(video, pick.time);
+      captureCtx.drawImage(video, 0, 0, capture.width, capture.height);
+      frames.push({
+        time: pick.time,
+        url: capture.toDataURL('image/jpeg', 0.9),
+        sharpness: maxSharpness ? pick.sharpness / maxSharpness : 0,
+        sceneChange: pick.sceneChange,
+        faces: pick.faces,
+        focus: pick.focus,
+        score: pick.score
+      });
+      onProgress?.(sampleCount + frames.length, sampleCount + picks.length);
+    }
+    return frames;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// One full-size still at `time`, unscored; e.g. the opening frame of a highlight clip.
+export const captureFrame = async (file: File, time: number): Promise<Pick<CandidateFrame, 'time' | 'url'>> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    const loaded = waitFor(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    if (!video.videoWidth) throw new Error("This video could not be decoded in the browser.");
+    await seek(video, Math.min(Math.max(0, time), video.duration || time));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(CAPTURE_WIDTH, video.videoWidth);
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * canvas.width);
+    canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return { time, url: canvas.toDataURL('image/jpeg', 0.9) };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Crops a frame to a thumbnail ratio at the platform export size, centred on the largest face if one was found.
+export const cropFrameToAspect = async (frame: Pick<CandidateFrame, 'url' | 'focus'>, aspectRatio: ThumbnailAspectRatio): Promise<string> => {
+  const target = EXPORT_TARGETS.find(t => t.aspectRatio === aspectRatio) || EXPORT_TARGETS[0];
+  const img = await loadImage(frame.url);
+  const scale = Math.max(target.width / img.width, target.height / img.height);
+  const cropWidth = target.width / scale;
+  const cropHeight = target.height / scale;
+  const focus = frame.focus || { x: 0.5, y: 0.5 };
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+  const sx = clamp(focus.x * img.width - cropWidth / 2, img.width - cropWidth);
+  const sy = clamp(focus.y * img.height - cropHeight / 2, img.height - cropHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width;
+  canvas.height = target.height;
+  canvas.getContext('2d')!.drawImage(img, sx, sy, cropWidth, cropHeight, 0, 0, target.width, target.height);
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
@@ -0,0 +1,21 @@
+// SubtleCrypto has no streaming digest, so large videos are hashed in fixed-size chunks
+// and the chunk digests are hashed together. Memory use stays at one chunk regardless of size.
+const HASH_CHUNK_SIZE = 16 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashFile = async (file: Blob, onProgress?: (fraction: number) => void): Promise<string> => {
+  const digests: Uint8Array[] = [];
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer();
+    digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)));
+    onProgress?.(Math.min(1, (offset + HASH_CHUNK_SIZE) / file.size));
+  }
+
+  const combined = new Uint8Array(digests.length * 32 + 8);
+  digests.forEach((digest, idx) => combined.set(digest, idx * 32));
+  // Mix in the byte length too, so an empty file still has a well-defined fingerprint.
+  new DataView(combined.buffer).setBigUint64(digests.length * 32, BigInt(file.size));
+  return `sha256:${toHex(await crypto.subtle.digest('SHA-256', combined))}`;
+};
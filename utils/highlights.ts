@@ -0,0 +1,48 @@
+import { Highlight, TranscriptSegment } from "../types";
+import { formatClock } from "./captions";
+
+// Shorts run up to 60 seconds here (the length every vertical platform accepts); anything under a few
+// seconds has no room for a hook and a payoff.
+export const MIN_HIGHLIGHT_SECONDS = 5;
+export const MAX_HIGHLIGHT_SECONDS = 60;
+export const MAX_HIGHLIGHTS = 5;
+
+// Below this there is nothing worth cutting down; the whole video already is the Short.
+const MIN_SOURCE_SECONDS = 15;
+
+export const supportsHighlights = (duration: number) => !duration || duration >= MIN_SOURCE_SECONDS;
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+// Keeps a clip inside the video and within the length limits, moving the out point rather than the in point.
+export const fixHighlight = (highlight: Highlight, duration = 0): Highlight => {
+  const last = duration > 0 ? duration : Infinity;
+  const start = round(Math.min(Math.max(0, highlight.start), Math.max(0, last - MIN_HIGHLIGHT_SECONDS)));
+  const end = round(Math.min(last, Math.max(start + MIN_HIGHLIGHT_SECONDS, Math.min(highlight.end, start + MAX_HIGHLIGHT_SECONDS))));
+  return { ...highlight, start, end };
+};
+
+export const checkHighlight = (highlight: Highlight, duration = 0): string[] => {
+  const issues: string[] = [];
+  const length = highlight.end - highlight.start;
+  if (length < MIN_HIGHLIGHT_SECONDS) issues.push(`Clips need at least ${MIN_HIGHLIGHT_SECONDS} seconds.`);
+  if (length > MAX_HIGHLIGHT_SECONDS) issues.push(`Clips over ${MAX_HIGHLIGHT_SECONDS} seconds are not Shorts on every platform.`);
+  if (highlight.start < 0 || (duration > 0 && highlight.end > duration + 0.5)) issues.push("The clip runs past the end of the video.");
+  return issues;
+};
+
+// The caption cues inside a clip, clamped to it and re-timed so the clip starts at 00:00.
+export const clipSegments = (segments: TranscriptSegment[], start: number, end: number): TranscriptSegment[] => segments
+  .filter(s => s.end > start && s.start < end)
+  .map(s => ({ ...s, start: round(Math.max(0, s.start - start)), end: round(Math.min(end, s.end) - start) }));
+
+export const formatRange = (highlight: Pick<Highlight, 'start' | 'end'>) =>
+  `${formatClock(highlight.start)}–${formatClock(highlight.end)}`;
+
+// Cover art for one clip: the clip's own title and hook, in the look of the video's thumbnail concept.
+export const highlightCoverPrompt = (highlight: Highlight, conceptPrompt: string) =>
+  `Vertical 9:16 cover for a short clip titled "${highlight.title}". The clip opens with: "${highlight.hook}". ` +
+  `Bold, readable at phone size, with the main subject in the centre third. Visual style: ${conceptPrompt}`;
+
+// Upload copy that travels with an exported clip.
+export const highlightPost = (highlight: Highlight) => `${highlight.title}\n\n${highlight.hook}\n`;
@@ -0,0 +1,19 @@
+export interface Locale {
+  code: string; // ISO 639-1, also used in export file names
+  label: string;
+  nativeName: string;
+}
+
+// Target languages offered for localization. English, Hindi and Spanish cover the channel today.
+export const LOCALES: Locale[] = [
+  { code: "en", label: "English", nativeName: "English" },
+  { code: "hi", label: "Hindi", nativeName: "हिन्दी" },
+  { code: "es", label: "Spanish", nativeName: "Español" },
+  { code: "pt", label: "Portuguese", nativeName: "Português" },
+  { code: "fr", label: "French", nativeName: "Français" },
+  { code: "de", label: "German", nativeName: "Deutsch" }
+];
+
+export const findLocale = (code: string) => LOCALES.find(l => l.code === code);
+
+export const localeLabel = (code: string) => findLocale(code)?.label || code.toUpperCase();
@@ -0,0 +1,197 @@
+import { EditorLayer, ImageLayer, TextLayer, ThumbnailAspectRatio } from "../types";
+
+export type ExportFormat = "png" | "jpeg";
+
+export interface ExportTarget {
+  id: string;
+  label: string;
+  aspectRatio: ThumbnailAspectRatio;
+  width: number;
+  height: number;
+  maxBytes: number;
+}
+
+// Upload specs for custom thumbnails / covers on each platform.
+export const EXPORT_TARGETS: ExportTarget[] = [
+  { id: "youtube", label: "YouTube", aspectRatio: "16:9", width: 1280, height: 720, maxBytes: 2 * 1024 * 1024 },
+  { id: "shorts", label: "YouTube Shorts", aspectRatio: "9:16", width: 1080, height: 1920, maxBytes: 2 * 1024 * 1024 },
+  { id: "reels", label: "Instagram Reels", aspectRatio: "9:16", width: 1080, height: 1920, maxBytes: 8 * 1024 * 1024 },
+  { id: "tiktok", label: "TikTok", aspectRatio: "9:16", width: 1080, height: 1920, maxBytes: 5 * 1024 * 1024 },
+  { id: "instagram-square", label: "Instagram Feed (Square)", aspectRatio: "1:1", width: 1080, height: 1080, maxBytes: 8 * 1024 * 1024 },
+  { id: "instagram-portrait", label: "Instagram Feed (Portrait)", aspectRatio: "4:5", width: 1080, height: 1350, maxBytes: 8 * 1024 * 1024 }
+];
+
+export interface SafeZone {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Areas covered by platform UI. Everything is a fraction of the canvas.
+export const SAFE_ZONES: Record<ThumbnailAspectRatio, SafeZone[]> = {
+  "16:9": [
+    { label: "Duration badge", x: 0.82, y: 0.85, width: 0.16, height: 0.12 },
+    { label: "Progress bar", x: 0, y: 0.95, width: 1, height: 0.05 }
+  ],
+  "9:16": [
+    { label: "Top bar", x: 0, y: 0, width: 1, height: 0.12 },
+    { label: "Action buttons", x: 0.85, y: 0.45, width: 0.15, height: 0.4 },
+    { label: "Caption & audio", x: 0, y: 0.8, width: 1, height: 0.2 }
+  ],
+  "1:1": [],
+  // The profile grid shows feed posts at 3:4, trimming the sides of a 4:5 image.
+  "4:5": [
+    { label: "Grid crop", x: 0, y: 0, width: 0.03, height: 1 },
+    { label: "Grid crop", x: 0.97, y: 0, width: 0.03, height: 1 }
+  ]
+};
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not load image."));
+  img.src = src;
+});
+
+// Scales and crops the base image to fill the canvas, like CSS object-fit: cover.
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const textLines = (layer: TextLayer) => (layer.uppercase ? layer.text.toUpperCase() : layer.text).split('\n');
+
+const applyFont = (ctx: CanvasRenderingContext2D, layer: TextLayer, height: number) => {
+  const size = layer.fontSize * height;
+  ctx.font = `${layer.fontWeight} ${size}px ${layer.fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  return size;
+};
+
+export interface LayerBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Bounding box in canvas pixels, used for hit-testing drags and drawing the selection.
+export const layerBounds = (
+  ctx: CanvasRenderingContext2D,
+  layer: EditorLayer,
+  width: number,
+  height: number,
+  images: Map<string, HTMLImageElement>
+): LayerBounds => {
+  if (layer.kind === 'text') {
+    const size = applyFont(ctx, layer, height);
+    const lines = textLines(layer);
+    const w = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const h = lines.length * size * 1.1;
+    return { left: layer.x * width - w / 2, top: layer.y * height - h / 2, width: w, height: h };
+  }
+  const img = images.get(layer.src);
+  const w = layer.width * width;
+  const h = img ? w * (img.naturalHeight / img.naturalWidth) : w;
+  return { left: layer.x * width - w / 2, top: layer.y * height - h / 2, width: w, height: h };
+};
+
+const drawTextLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number) => {
+  const size = applyFont(ctx, layer, height);
+  const lines = textLines(layer);
+  const lineHeight = size * 1.1;
+  const startY = layer.y * height - ((lines.length - 1) * lineHeight) / 2;
+  const x = layer.x * width;
+
+  lines.forEach((line, idx) => {
+    const y = startY + idx * lineHeight;
+    ctx.save();
+    ctx.lineJoin = "round";
+    ctx.shadowColor = layer.shadowColor;
+    ctx.shadowBlur = layer.shadowBlur * (height / 1080);
+    if (layer.strokeWidth > 0) {
+      ctx.strokeStyle = layer.strokeColor;
+      ctx.lineWidth = layer.strokeWidth * size;
+      ctx.strokeText(line, x, y);
+      // Only the stroke casts the shadow so the fill stays crisp.
+      ctx.shadowColor = "transparent";
+    }
+    ctx.fillStyle = layer.color;
+    ctx.fillText(line, x, y);
+    ctx.restore();
+  });
+};
+
+const drawImageLayer = (ctx: CanvasRenderingContext2D, layer: ImageLayer, width: number, height: number, images: Map<string, HTMLImageElement>) => {
+  const img = images.get(layer.src);
+  if (!img) return;
+  const b = layerBounds(ctx, layer, width, height, images);
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.drawImage(img, b.left, b.top, b.width, b.height);
+  ctx.restore();
+};
+
+export const renderComposition = (
+  canvas: HTMLCanvasElement,
+  base: HTMLImageElement | null,
+  layers: EditorLayer[],
+  images: Map<string, HTMLImageElement>
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, width, height);
+  if (base) drawCover(ctx, base, width, height);
+  for (const layer of layers) {
+    if (layer.kind === 'text') drawTextLayer(ctx, layer, width, height);
+    else drawImageLayer(ctx, layer, width, height, images);
+  }
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Export failed.")), type, quality);
+});
+
+export interface ExportResult {
+  blob: Blob;
+  format: ExportFormat;
+  quality?: number;
+  withinLimit: boolean;
+}
+
+// Renders at the exact target resolution. PNG that is too heavy falls back to JPEG, and JPEG
+// quality steps down until the file fits the platform limit (or the quality floor is reached).
+export const exportComposition = async (
+  target: ExportTarget,
+  format: ExportFormat,
+  base: HTMLImageElement | null,
+  layers: EditorLayer[],
+  images: Map<string, HTMLImageElement>
+): Promise<ExportResult> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = target.width;
+  canvas.height = target.height;
+  renderComposition(canvas, base, layers, images);
+
+  if (format === "png") {
+    const png = await toBlob(canvas, "image/png");
+    if (png.size <= target.maxBytes) return { blob: png, format: "png", withinLimit: true };
+  }
+
+  let quality = 0.92;
+  let jpeg = await toBlob(canvas, "image/jpeg", quality);
+  while (jpeg.size > target.maxBytes && quality > 0.5) {
+    quality = Math.round((quality - 0.08) * 100) / 100;
+    jpeg = await toBlob(canvas, "image/jpeg", quality);
+  }
+  return { blob: jpeg, format: "jpeg", quality, withinLimit: jpeg.size <= target.maxBytes };
+};
@@ -0,0 +1,184 @@
+import { CopyLimits } from "../services/platforms";
+
+// Deterministic title scoring. Every factor is computed from the text alone, so the same
+// title always gets the same score and each point can be traced back to a rule.
+
+export type TitleFactorId = 'length' | 'keywords' | 'powerWords' | 'numbers' | 'readability' | 'caps' | 'uniqueness' | 'modelRank';
+
+export interface TitleFactor {
+  id: TitleFactorId;
+  label: string;
+  score: number; // 0..1
+  weight: number; // share of the total; weights of the factors that apply sum to 1
+  detail: string;
+}
+
+export interface TitleScore {
+  total: number; // 0..100
+  factors: TitleFactor[];
+}
+
+export interface TitleScoreContext {
+  keywords: string[]; // trending keywords from the analysis
+  limits?: CopyLimits; // strictest title limit of the enabled platforms
+  others: string[]; // the other candidates (not this one), for duplication
+  rank?: number; // the model's rank, 1 (best) to RANKED_TITLES; absent for typed-in titles
+}
+
+// Relative weights. A typed-in title has no model rank, so the rest are scaled up to fill its share.
+const WEIGHTS: Record<TitleFactorId, number> = {
+  length: 0.2,
+  keywords: 0.2,
+  powerWords: 0.12,
+  readability: 0.12,
+  uniqueness: 0.1,
+  modelRank: 0.1,
+  numbers: 0.08,
+  caps: 0.08
+};
+
+const LABELS: Record<TitleFactorId, string> = {
+  length: 'Length',
+  keywords: 'Keyword coverage',
+  powerWords: 'Power & emotion words',
+  numbers: 'Numbers',
+  readability: 'Readability',
+  caps: 'All-caps',
+  uniqueness: 'Distinct from others',
+  modelRank: 'Model rank'
+};
+
+const RANKED_TITLES = 5;
+
+// Used when no enabled platform publishes titles; these are YouTube's limits.
+const DEFAULT_LIMITS: CopyLimits = { maxChars: 100, recommendedChars: 70 };
+// Below this many characters a title rarely says enough to earn the click.
+const MIN_USEFUL_CHARS = 25;
+// Keywords this early in the title survive truncation in search results and feeds.
+const FRONT_CHARS = 40;
+
+const POWER_WORDS = new Set([
+  'best', 'worst', 'secret', 'secrets', 'proven', 'ultimate', 'essential', 'simple', 'easy', 'fast', 'quick',
+  'free', 'new', 'now', 'never', 'always', 'stop', 'avoid', 'mistake', 'mistakes', 'truth', 'real', 'honest',
+  'hidden', 'exactly', 'instantly', 'finally', 'actually', 'why', 'how', 'complete', 'guide', 'tips', 'hacks',
+  'amazing', 'incredible', 'surprising', 'shocking', 'crazy', 'insane', 'epic', 'powerful', 'brutal', 'perfect',
+  'love', 'hate', 'fear', 'afraid', 'dangerous', 'warning', 'regret', 'wish', 'dream', 'fail', 'failed', 'win',
+  'beginner', 'beginners', 'pro', 'expert', 'everyone', 'nobody', 'only', 'first', 'last', 'vs', 'changed'
+]);
+
+const NUMBER_WORDS = new Set(['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'twelve', 'twenty', 'hundred', 'thousand', 'million']);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const words = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const scoreLength = (text: string, limits: CopyLimits) => {
+  const chars = Array.from(text).length;
+  const soft = limits.recommendedChars || limits.maxChars;
+  if (chars > limits.maxChars) return { score: 0, detail: `${chars} characters, over the ${limits.maxChars} limit` };
+  if (chars > soft) return { score: clamp01(1 - (chars - soft) / (limits.maxChars - soft || 1)) * 0.6, detail: `${chars} characters, cut off after ${soft}` };
+  if (chars < MIN_USEFUL_CHARS) return { score: chars / MIN_USEFUL_CHARS, detail: `${chars} characters, short on detail` };
+  return { score: 1, detail: `${chars} characters, shown in full` };
+};
+
+// Multi-word keywords count when all their words appear, in any order.
+const scoreKeywords = (text: string, keywords: string[]) => {
+  if (keywords.length === 0) return { score: 0.5, detail: 'No trending keywords to check against' };
+  const titleWords = new Set(words(text));
+  const front = new Set(words(Array.from(text).slice(0, FRONT_CHARS).join('')));
+  const matched = keywords.filter(k => words(k).length > 0 && words(k).every(w => titleWords.has(w)));
+  if (matched.length === 0) return { score: 0, detail: 'Uses none of the trending keywords' };
+  const frontLoaded = matched.some(k => words(k).every(w => front.has(w)));
+  return {
+    score: clamp01(0.6 + (matched.length > 1 ? 0.2 : 0) + (frontLoaded ? 0.2 : 0)),
+    detail: `Uses ${matched.join(', ')}${frontLoaded ? ', early in the title' : ''}`
+  };
+};
+
+// One or two land; a title stuffed with them reads as clickbait.
+const scorePowerWords = (text: string) => {
+  const found = Array.from(new Set(words(text).filter(w => POWER_WORDS.has(w))));
+  const score = found.length === 0 ? 0 : found.length <= 2 ? 0.6 + found.length * 0.2 : found.length === 3 ? 0.8 : 0.5;
+  return { score, detail: found.length ? found.join(', ') : 'None' };
+};
+
+const scoreNumbers = (text: string) => {
+  const digits = text.match(/\d+/g) || [];
+  if (digits.length > 0) return { score: 1, detail: `Has ${digits.join(', ')}` };
+  const spelled = words(text).filter(w => NUMBER_WORDS.has(w));
+  if (spelled.length > 0) return { score: 0.7, detail: `Spelled out (${spelled.join(', ')}); digits stand out more` };
+  return { score: 0, detail: 'No number' };
+};
+
+// Vowel groups, minus a silent final "e". Good enough for a grade estimate. Numbers count as one.
+export const countSyllables = (word: string) => {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return 1;
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length || 0);
+};
+
+// Flesch-Kincaid grade level, treating the title as one sentence. Short texts with a few long
+// words score high on this scale, so titles up to grade 8 count as easy.
+export const readingGrade = (text: string) => {
+  const list = words(text);
+  if (list.length === 0) return 0;
+  const syllables = list.reduce((sum, w) => sum + countSyllables(w), 0);
+  return Math.max(0, 0.39 * list.length + 11.8 * (syllables / list.length) - 15.59);
+};
+
+const scoreReadability = (text: string) => {
+  const grade = readingGrade(text);
+  return { score: clamp01((14 - grade) / 6), detail: `Grade ${grade.toFixed(1)}` };
+};
+
+// One shouted word is emphasis; a shouted title reads as spam.
+const scoreCaps = (text: string) => {
+  const lettered = text.match(/\p{L}{2,}/gu) || [];
+  if (lettered.length === 0) return { score: 1, detail: 'No words' };
+  const caps = lettered.filter(w => w === w.toUpperCase() && w !== w.toLowerCase()).length;
+  const ratio = caps / lettered.length;
+  return { score: ratio <= 0.2 ? 1 : clamp01(1 - (ratio - 0.2) / 0.3), detail: `${percent(ratio)} of words in capitals` };
+};
+
+// Jaccard overlap of word sets with the closest other candidate.
+const overlap = (a: string, b: string) => {
+  const setA = new Set(words(a));
+  const setB = new Set(words(b));
+  const shared = Array.from(setA).filter(w => setB.has(w)).length;
+  const union = new Set([...setA, ...setB]).size;
+  return union ? shared / union : 0;
+};
+
+const scoreUniqueness = (text: string, others: string[]) => {
+  const candidates = others.filter(o => o.trim());
+  if (candidates.length === 0) return { score: 1, detail: 'Nothing to compare with' };
+  const closest = Math.max(...candidates.map(o => overlap(text, o)));
+  return { score: clamp01(1 - (closest - 0.2) / 0.5), detail: `${percent(closest)} word overlap with the closest option` };
+};
+
+const scoreRank = (rank: number) => ({
+  score: clamp01((RANKED_TITLES - rank) / (RANKED_TITLES - 1)),
+  detail: `Ranked #${rank} of ${RANKED_TITLES} by the model`
+});
+
+export const scoreTitle = (text: string, context: TitleScoreContext): TitleScore => {
+  const results: Partial<Record<TitleFactorId, { score: number; detail: string }>> = {
+    length: scoreLength(text, context.limits || DEFAULT_LIMITS),
+    keywords: scoreKeywords(text, context.keywords),
+    powerWords: scorePowerWords(text),
+    numbers: scoreNumbers(text),
+    readability: scoreReadability(text),
+    caps: scoreCaps(text),
+    uniqueness: scoreUniqueness(text, context.others),
+    ...(context.rank !== undefined ? { modelRank: scoreRank(context.rank) } : {})
+  };
+  const ids = Object.keys(results) as TitleFactorId[];
+  const weightSum = ids.reduce((sum, id) => sum + WEIGHTS[id], 0);
+  const factors = ids.map(id => ({ id, label: LABELS[id], weight: WEIGHTS[id] / weightSum, ...results[id]! }));
+  const total = Math.round(factors.reduce((sum, f) => sum + f.score * f.weight, 0) * 100);
+  return { total, factors };
+};
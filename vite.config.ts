@@ -2,17 +2,23 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The backend proxy (npm run server) holds the API key; the page only ever talks to /api.
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`
+        }
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The server bundle reads its settings from the real environment at runtime. The browser
+      // bundle gets no key, only which provider to use and where the proxy lives.
+      define: isSsrBuild ? {} : {
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || 'proxy'),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '/api')
       },
       resolve: {
         alias: {